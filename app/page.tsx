@@ -7,6 +7,82 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Progress } from "@/components/ui/progress"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Download, Github } from "lucide-react"
+import {
+  catalogFileUrl,
+  defaultVariant,
+  fetchVariant,
+  findVariant,
+  firmwareCatalog,
+  FirmwareNotFoundError,
+  sourceUrl,
+  supportsHardware,
+  type FirmwareImage,
+} from "@/lib/firmware-catalog"
+import { buildDfuseFile, ST_DFU_PID, ST_VID } from "@/lib/dfuse-file"
+import {
+  BootstubClient,
+  BootstubFlasherError,
+  chooseBackend,
+  flashViaBootstub,
+  isBootstub,
+  waitForBootstub,
+  type FlashBackend,
+} from "@/lib/bootstub-flash"
+import { loadFirmwareFile } from "@/lib/firmware-formats"
+import { IntegrityError, sha256Hex } from "@/lib/integrity"
+import { analyzeImage, APP_ADDRESS, BOOTSTUB_ADDRESS } from "@/lib/stm32-image"
+import {
+  DEFAULT_LAYOUT,
+  formatLayout,
+  layoutEnd,
+  layoutStart,
+  parseMemoryLayout,
+  type MemoryLayout,
+} from "@/lib/dfuse-layout"
+import { DfuDevice, findDfuInterfaces, type DfuSettings } from "@/lib/dfu"
+import { isStBootloader, waitForBootloader, type ReattachResult } from "@/lib/dfu-reattach"
+import { detachToDfuMode, isDfuRuntime, openDfuseDevice } from "@/lib/dfu-runtime"
+import {
+  DfuCancelledError,
+  DfuError,
+  DfuProtectedError,
+  DfuTimeoutError,
+  DfuTransportError,
+  DfuVerifyError,
+  explainDfuError,
+} from "@/lib/dfu-errors"
+import { SimulatedDfuseDevice } from "@/lib/dfu-simulator"
+import {
+  BOOTSTUB_PID,
+  confirmFlash,
+  formatIdentity,
+  isPanda,
+  PANDA_VID,
+  PandaClient,
+  type PandaIdentity,
+} from "@/lib/panda"
+import { BOOT0_STEPS, recoverPanda } from "@/lib/recovery"
+import {
+  describeOptionBytes,
+  findOptionBytesAlternate,
+  readOptionBytes,
+  RDP_DESCRIPTION,
+  type OptionBytes,
+} from "@/lib/option-bytes"
+import { checkAppSignature, parseRsaPrivateKey, signApp, type SignatureCheck } from "@/lib/panda-signature"
+import { backupFileName, flashFirmware, ImageValidationError, planFlash, restoreFlash } from "@/lib/flash"
+import { formatProgress, type FlashProgress, type PhaseKind } from "@/lib/flash-progress"
+import {
+  GestureRequired,
+  GuidedFlow,
+  resumePoint,
+  stepForPhase,
+  stepIndex,
+  type FlowStep,
+  type FlowStepId,
+  type StepStatus,
+} from "@/lib/guided-flow"
+import { hex } from "@/lib/utils"
 
 /** ---------- Small logging helper ---------- */
 const useLogger = () => {
@@ -20,408 +96,204 @@ const useLogger = () => {
   return { lines, log, clear }
 }
 
-/** ---------- DFU wrapper with DFUSe helpers ---------- */
-type DfuSettings = {
-  configuration: USBConfiguration
-  interface: USBInterface
-  alternate: USBAlternateInterface
-  name?: string | null
-}
-
-class DfuDevice {
-  device: USBDevice
-  settings: DfuSettings
-  logProgress: (done: number, total?: number) => void = () => {}
-
-  constructor(device: USBDevice, settings: DfuSettings) {
-    this.device = device
-    this.settings = settings
-  }
+type FlashBackup = { data: ArrayBuffer; fileName: string; url: string }
 
-  // ---- open/claim/select alt ----
-  async open() {
-    if (!this.device.opened) await this.device.open()
-    if (
-      !this.device.configuration ||
-      this.device.configuration.configurationValue !== this.settings.configuration.configurationValue
-    ) {
-      await this.device.selectConfiguration(this.settings.configuration.configurationValue)
-    }
-    const intfNumber = this.settings.interface.interfaceNumber
-    if (!this.device.configuration!.interfaces[intfNumber].claimed) {
-      await this.device.claimInterface(intfNumber)
-    }
-    const alt = this.settings.alternate.alternateSetting ?? 0
-    const intf = this.device.configuration!.interfaces[intfNumber]
-    if (!intf.alternate || intf.alternate.alternateSetting !== alt || intf.alternates.length > 1) {
-      try {
-        await this.device.selectAlternateInterface(intfNumber, alt)
-      } catch (e) {
-        if (!intf.alternate || intf.alternate.alternateSetting !== alt) throw e
-      }
-    }
-  }
-
-  async close() {
-    try {
-      if (this.device.opened) await this.device.close()
-    } catch {
-      /* ignore */
-    }
-  }
-
-  // ---- core class control helpers ----
-  private async requestOut(request: number, data?: BufferSource, value = 0) {
-    const r = await this.device.controlTransferOut(
-      {
-        requestType: "class",
-        recipient: "interface",
-        request,
-        value,
-        index: this.settings.interface.interfaceNumber,
-      },
-      data,
-    )
-    if (r.status !== "ok") throw new Error(`controlTransferOut failed: ${r.status}`)
-    return r.bytesWritten ?? 0
-  }
+const STEP_ICONS: Record<StepStatus, string> = {
+  pending: "○",
+  running: "⏳",
+  done: "✅",
+  skipped: "➖",
+  waiting: "👉",
+  failed: "❌",
+}
 
-  private async requestIn(request: number, length: number, value = 0) {
-    const r = await this.device.controlTransferIn(
-      {
-        requestType: "class",
-        recipient: "interface",
-        request,
-        value,
-        index: this.settings.interface.interfaceNumber,
-      },
-      length,
-    )
-    if (r.status !== "ok") throw new Error(`controlTransferIn failed: ${r.status}`)
-    return r.data!
-  }
+/** Lets the guided flow run a flash or restore and follow it */
+type JobHooks = {
+  /** The bootloader this run just connected to, before React state has caught up */
+  device?: DfuDevice
+  /** Overrides the backup checkbox, e.g. when a resumed run already took the backup */
+  backup?: boolean
+  /** Firmware the run already loaded to choose how to flash it */
+  images?: FirmwareImage[]
+  onPhase?: (kind: PhaseKind) => void
+}
+/** What a flash or restore ended with; `message` is also shown as the status */
+type JobOutcome = { ok: boolean; message: string }
 
-  // ---- DFU constants & helpers ----
-  private static readonly DFU = {
-    DETACH: 0x00,
-    DNLOAD: 0x01,
-    UPLOAD: 0x02,
-    GETSTATUS: 0x03,
-    CLRSTATUS: 0x04,
-    GETSTATE: 0x05,
-    ABORT: 0x06,
-  } as const
-
-  private static readonly STATE = {
-    appIDLE: 0,
-    appDETACH: 1,
-    dfuIDLE: 2,
-    dfuDNLOAD_SYNC: 3,
-    dfuDNBUSY: 4,
-    dfuDNLOAD_IDLE: 5,
-    dfuMANIFEST_SYNC: 6,
-    dfuMANIFEST: 7,
-    dfuMANIFEST_WAIT_RESET: 8,
-    dfuUPLOAD_IDLE: 9,
-    dfuERROR: 10,
-  } as const
-
-  private static readonly STATE_NAME: Record<number, string> = {
-    0: "appIDLE",
-    1: "appDETACH",
-    2: "dfuIDLE",
-    3: "dfuDNLOAD_SYNC",
-    4: "dfuDNBUSY",
-    5: "dfuDNLOAD_IDLE",
-    6: "dfuMANIFEST_SYNC",
-    7: "dfuMANIFEST",
-    8: "dfuMANIFEST_WAIT_RESET",
-    9: "dfuUPLOAD_IDLE",
-    10: "dfuERROR",
-  }
+/** ---------- Page Component ---------- */
+export default function Page() {
+  const { lines, log, clear } = useLogger()
 
-  private async getStatus() {
-    const d = await this.requestIn(DfuDevice.DFU.GETSTATUS, 6)
-    return { status: d.getUint8(0), pollTimeout: d.getUint32(1, true) & 0xffffff, state: d.getUint8(4) }
-  }
-  private async getState() {
-    const d = await this.requestIn(DfuDevice.DFU.GETSTATE, 1)
-    return d.getUint8(0)
-  }
+  const [connectionStep, setConnectionStep] = useState<"idle" | "normal" | "dfu-mode" | "dfu-connected">("idle")
+  const [normalDevice, setNormalDevice] = useState<USBDevice | null>(null)
+  // Read in step 1 and kept after the panda re-enumerates in DFU mode
+  const [identity, setIdentity] = useState<PandaIdentity | null>(null)
+  const [dfuDevice, setDfuDevice] = useState<DfuDevice | null>(null)
+  const [memoryLayout, setMemoryLayout] = useState<MemoryLayout>(DEFAULT_LAYOUT)
+  const [dfuAlternates, setDfuAlternates] = useState<DfuSettings[]>([])
 
-  async abortToIdle() {
-    await this.requestOut(DfuDevice.DFU.ABORT)
-    let s = await this.getState()
-    if (s === DfuDevice.STATE.dfuERROR) {
-      await this.requestOut(DfuDevice.DFU.CLRSTATUS)
-      s = await this.getState()
-    }
-    if (s !== DfuDevice.STATE.dfuIDLE) throw new Error(`Failed to return to IDLE, state=${s}`)
-  }
+  // A catalog variant id, or "upload" / "restore"
+  const [firmwareType, setFirmwareType] = useState<string>(defaultVariant.id)
+  const selectedVariant = useMemo(() => findVariant(firmwareType), [firmwareType])
 
-  private async pollUntil(targetState: number) {
-    let st = await this.getStatus()
-    const sleep = (ms: number) => new Promise((res) => setTimeout(res, ms))
-    while (st.state !== targetState && st.state !== DfuDevice.STATE.dfuERROR) {
-      console.debug(`[DFU] sleep ${st.pollTimeout}ms (state=${st.state}/${DfuDevice.STATE_NAME[st.state]})`)
-      await sleep(st.pollTimeout)
-      st = await this.getStatus()
-    }
-    return st
-  }
+  const [progress, setProgress] = useState<FlashProgress | null>(null)
+  const [pandaBin, setPandaBin] = useState<ArrayBuffer | null>(null)
+  const [bootstubBin, setBootstubBin] = useState<ArrayBuffer | null>(null)
+  const [uploadDigests, setUploadDigests] = useState<{ panda?: string; bootstub?: string }>({})
+  const [signatureCheck, setSignatureCheck] = useState<SignatureCheck | null>(null)
+  // An address-tagged upload (.dfu, .hex, .elf) is flashed segment by segment instead of as a bin pair
+  const [container, setContainer] = useState<{ source: string; images: FirmwareImage[] } | null>(null)
+  const [imageDigests, setImageDigests] = useState<{ name: string; sha256: string; known: boolean }[]>([])
+  const [statusMessage, setStatusMessage] = useState<string>("")
 
-  private async dnloadBlock(data: ArrayBuffer, blockNum: number) {
-    await this.requestOut(DfuDevice.DFU.DNLOAD, data, blockNum)
-    return this.pollUntil(DfuDevice.STATE.dfuDNLOAD_IDLE)
-  }
+  const [backupBeforeFlash, setBackupBeforeFlash] = useState(true)
+  const [smartFlash, setSmartFlash] = useState(false)
+  const [massErase, setMassErase] = useState(false)
+  const [readProtected, setReadProtected] = useState(false)
+  const [optionBytes, setOptionBytes] = useState<OptionBytes | null>(null)
+  const [unprotectConfirmed, setUnprotectConfirmed] = useState(false)
+  const [backup, setBackup] = useState<FlashBackup | null>(null)
+  const [rollbackImage, setRollbackImage] = useState<ArrayBuffer | null>(null)
+  // Cancels the flash or restore in progress
+  const [job, setJob] = useState<AbortController | null>(null)
 
-  /** Write data; for DFUSe we start at block 2 (block 0 is commands) */
-  async do_download(xferSize: number, data: ArrayBuffer, manifestationTolerant: boolean, firstBlock = 2) {
-    await this.abortToIdle()
+  const [dfuButtonDisabled, setDfuButtonDisabled] = useState(false)
+  const flowRef = useRef<GuidedFlow | null>(null)
+  /** How the current guided run flashes, so a resumed run keeps to it */
+  const routeRef = useRef<FlashBackend["kind"]>("dfuse")
+  const [flowSteps, setFlowSteps] = useState<FlowStep[]>([])
+  const [flowRunning, setFlowRunning] = useState(false)
+  const resumeStep = resumePoint(flowSteps)
+  // ?simulate swaps the ST bootloader for an in-memory one, for trying the flow without hardware
+  const [simulate, setSimulate] = useState(false)
 
-    const view = new Uint8Array(data)
-    let sent = 0
-    let block = firstBlock
+  useEffect(() => {
+    setSimulate(new URLSearchParams(window.location.search).has("simulate"))
+  }, [])
 
-    this.logProgress(0, view.byteLength)
+  /** Open the bootloader's DFU interface and make it the device to flash; throws if it is not usable */
+  const openDfuDevice = useCallback(
+    async (device: USBDevice | SimulatedDfuseDevice) => {
+      log("[v0] Found DFU device:", device.productName || "STM32 BOOTLOADER")
 
-    while (sent < view.byteLength) {
-      const size = Math.min(xferSize, view.byteLength - sent)
-      const progress = Math.round((sent / view.byteLength) * 100)
-      console.log(`[DFU] Block ${block}: ${sent}/${view.byteLength} bytes (${progress}%) - sending ${size} bytes`)
+      const dfuIfs = findDfuInterfaces(device)
+      if (dfuIfs.length === 0) {
+        throw new Error("No DFU (protocol 2) interface found. Device may not be in DFU mode.")
+      }
 
-      const st = await this.dnloadBlock(view.slice(sent, sent + size).buffer, block++)
-      if (st.status !== 0) throw new Error(`DFU DOWNLOAD failed state=${st.state} status=${st.status}`)
-      sent += size
-      this.logProgress(sent, view.byteLength)
-    }
+      for (const alt of dfuIfs) {
+        log(`[v0] DFU alternate ${alt.alternate.alternateSetting}: ${alt.name ?? "(unnamed)"}`)
+      }
 
-    console.log(`[DFU] Sending final ZLP (block ${block})`)
-    await this.requestOut(DfuDevice.DFU.DNLOAD, new ArrayBuffer(0), block++)
+      const settings = dfuIfs[0]
+      log("[v0] Selected DFU interface/alt:", settings.interface.interfaceNumber, settings.alternate.alternateSetting)
+      // A generic device detached from runtime mode may speak plain DFU 1.1 only
+      const dev = await openDfuseDevice(device, settings)
+      setDfuAlternates(dfuIfs)
+      setOptionBytes(null)
 
-    if (manifestationTolerant) {
-      const fin = await this.pollUntil(DfuDevice.STATE.dfuIDLE)
-      if (fin.status !== 0) throw new Error(`DFU MANIFEST failed state=${fin.state} status=${fin.status}`)
-    } else {
+      // The alternate's name carries the DFUSe sector map, e.g. "@Internal Flash /0x08000000/04*016Kg,..."
+      let layout = DEFAULT_LAYOUT
       try {
-        await this.getStatus()
-      } catch {
-        /* ignore */
+        if (settings.name) layout = parseMemoryLayout(settings.name)
+        else log("[v0] ⚠️ DFU interface has no memory-layout name, assuming the STM32F205 layout")
+      } catch (e) {
+        log(`[v0] ⚠️ ${e instanceof Error ? e.message : String(e)} - assuming the STM32F205 layout`)
       }
-    }
-  }
-
-  // ---- DFUSe vendor extensions ----
-  async dfuseSetAddress(addr: number) {
-    const b = new ArrayBuffer(5)
-    const v = new DataView(b)
-    v.setUint8(0, 0x21)
-    v.setUint32(1, addr, true)
-    await this.abortToIdle()
-    const st = await this.dnloadBlock(b, 0)
-    if (st.status !== 0) throw new Error(`DFUSe SETADDR failed: status=${st.status}, state=${st.state}`)
-  }
+      log(`[v0] 🗺️ Memory layout: ${formatLayout(layout)}`)
+      setMemoryLayout(layout)
 
-  async dfuseErase(addr: number) {
-    const b = new ArrayBuffer(5)
-    const v = new DataView(b)
-    v.setUint8(0, 0x41)
-    v.setUint32(1, addr, true)
-    await this.abortToIdle()
-    const st = await this.dnloadBlock(b, 0)
-    if (st.status !== 0) throw new Error(`DFUSe ERASE failed: status=${st.status}, state=${st.state}`)
-  }
+      setDfuDevice(dev)
+      setConnectionStep("dfu-connected")
+      setStatusMessage("DFU device connected successfully! Ready to flash firmware.")
+      log("[v0] DFU device opened successfully")
+      return dev
+    },
+    [log],
+  )
 
-  /** Read DFU Functional descriptor for this interface/alt and return wTransferSize */
-  async getTransferSize(): Promise<number> {
-    const GET_DESCRIPTOR = 0x06
-    const DT_CONFIGURATION = 0x02
-    const wValue = (DT_CONFIGURATION << 8) | this.settings.configuration.configurationValue
-
-    // Read config header to get total length
-    const first = await this.device.controlTransferIn(
-      { requestType: "standard", recipient: "device", request: GET_DESCRIPTOR, value: wValue, index: 0 },
-      4,
-    )
-    if (first.status !== "ok") throw new Error(String(first.status))
-    const wTotalLength = first.data!.getUint16(2, true)
-
-    // Read full configuration descriptor
-    const full = await this.device.controlTransferIn(
-      { requestType: "standard", recipient: "device", request: GET_DESCRIPTOR, value: wValue, index: 0 },
-      wTotalLength,
-    )
-    if (full.status !== "ok") throw new Error(String(full.status))
-    const bytes = new DataView(full.data!.buffer)
-
-    // Walk descriptors to find our interface/alt, then its DFU Functional (type 0x21)
-    let offset = 9 // skip config header (9 bytes)
-    let inTargetIntf = false
-
-    while (offset + 2 <= bytes.byteLength) {
-      const bLength = bytes.getUint8(offset)
-      const bType = bytes.getUint8(offset + 1)
-      if (bLength < 2) break
-
-      if (bType === 0x04 /* INTERFACE */) {
-        const intfNum = bytes.getUint8(offset + 2)
-        const alt = bytes.getUint8(offset + 3)
-        const cls = bytes.getUint8(offset + 5)
-        const subcls = bytes.getUint8(offset + 6)
-        const proto = bytes.getUint8(offset + 7)
-        inTargetIntf =
-          intfNum === this.settings.interface.interfaceNumber &&
-          alt === this.settings.alternate.alternateSetting &&
-          cls === 0xfe &&
-          subcls === 0x01 &&
-          proto === 0x02 // DFU mode (DFUSe)
-      } else if (inTargetIntf && bType === 0x21 /* DFU Functional */) {
-        const wTransferSize = bytes.getUint16(offset + 5, true)
-        return wTransferSize || 2048
+  const attachDfuDevice = useCallback(
+    async (device: USBDevice | SimulatedDfuseDevice) => {
+      try {
+        await openDfuDevice(device)
+      } catch (e: any) {
+        log("[v0] DFU connect failed:", e?.message || String(e))
+        setStatusMessage(`DFU connection failed: ${e?.message || String(e)}`)
       }
+    },
+    [openDfuDevice, log],
+  )
 
-      offset += bLength
-    }
-
-    // Fallback if not found
-    return 2048
-  }
-}
-
-const writeWithFallback = async (dev: DfuDevice, data: ArrayBuffer, sizes: number[], operation: string, log: any) => {
-  let lastErr: unknown
-  const tried = new Set<number>()
-
-  // Set up progress logging for this operation
-  dev.logProgress = (done: number, total?: number) => {
-    if (total) {
-      const percent = Math.round((done / total) * 100)
-      log(`[v0] 📊 ${operation}: ${done}/${total} bytes (${percent}%)`)
-    }
-  }
-
-  for (const s of sizes) {
-    if (tried.has(s)) continue
-    tried.add(s)
+  const connectDfuDevice = useCallback(async () => {
     try {
-      log(`[v0] 🔄 Attempting ${operation} with transfer size ${s}...`)
-      await dev.do_download(s, data, /*manifest*/ true, /*firstBlock*/ 2)
-      log(`[v0] ✅ Successfully flashed ${operation} (${data.byteLength} bytes)`)
-      return true
-    } catch (e) {
-      lastErr = e
-      const errorMsg = e instanceof Error ? e.message : String(e)
+      setStatusMessage("Connecting to DFU device...")
 
-      if (errorMsg.includes("disconnected")) {
-        log(`[v0] ⚠️ Device disconnected during ${operation} transfer`)
+      const picked = simulate
+        ? new SimulatedDfuseDevice()
+        : await navigator.usb.requestDevice({
+            filters: [
+              { vendorId: 0x0483, productId: 0xdf11 }, // ST DFU (DFUSe)
+              { classCode: 0xfe, subclassCode: 0x01 }, // DFU class, in runtime or DFU mode
+            ],
+          })
 
-        // Check if we made significant progress before disconnection
-        if (tried.size > 1) {
-          log(`[v0] 💡 Disconnection after trying multiple transfer sizes - likely successful`)
-          return true
-        } else {
-          log(`[v0] 🔴 Early disconnection - trying smaller transfer size`)
-          continue
+      // Any DFU 1.1 device still running its application is switched over with a standard DETACH
+      if (!(picked instanceof SimulatedDfuseDevice) && isDfuRuntime(picked)) {
+        log(`[v0] 🔁 ${picked.productName || "The device"} is in DFU runtime mode - detaching it into DFU mode`)
+        setStatusMessage("Switching the device into DFU mode...")
+        const dfuMode = await detachToDfuMode(picked, navigator.usb, log)
+        if (!dfuMode) {
+          log("[v0] Device in DFU mode is not permitted yet - waiting for the user to pick it")
+          setConnectionStep("dfu-mode")
+          setStatusMessage('The device is in DFU mode now. Click "Connect DFU Device" again and pick it.')
+          return
         }
-      } else {
-        log(`[v0] ❌ Transfer failed: ${errorMsg}`)
+        await attachDfuDevice(dfuMode)
+        return
       }
+      await attachDfuDevice(picked)
+    } catch (e: any) {
+      log("[v0] DFU connect failed:", e?.message || String(e))
+      setStatusMessage(`DFU connection failed: ${e?.message || String(e)}`)
     }
-  }
-
-  // If all sizes failed, check if it was due to disconnection (which might indicate success)
-  const errorMsg = lastErr instanceof Error ? lastErr.message : String(lastErr)
-  if (errorMsg.includes("disconnected")) {
-    log(`[v0] 🤔 All attempts resulted in disconnection - this often means the flash succeeded`)
-    log(`[v0] 💡 Device likely rebooted after successful flash`)
-    return true
-  }
-
-  throw lastErr
-}
-
-const flashWithRetry = async (operation: string, data: ArrayBuffer, dev: any, log: any) => {
-  const transferSizes = [2048, 1024, 512, 256]
-  const tried = new Set<number>()
-  let lastErr: any
-  const totalProgress = 0
-
-  for (const s of transferSizes) {
-    if (tried.has(s)) continue
-    tried.add(s)
-    try {
-      log(`[v0] 🔄 Attempting ${operation} with transfer size ${s}...`)
-      await dev.do_download(s, data, /*manifest*/ true, /*firstBlock*/ 2)
-      log(`[v0] ✅ Successfully flashed ${operation} (${data.byteLength} bytes)`)
-      return true
-    } catch (e) {
-      lastErr = e
-      const errorMsg = e instanceof Error ? e.message : String(e)
-
-      if (errorMsg.includes("disconnected")) {
-        if (totalProgress >= data.byteLength * 0.9) {
-          log(
-            `[v0] 🎉 Device disconnected after ${Math.round((totalProgress / data.byteLength) * 100)}% completion - Flash successful!`,
-          )
-          return true
-        } else if (tried.size > 1) {
-          log(`[v0] 💡 Disconnection after trying multiple transfer sizes - likely successful`)
-          return true
-        } else {
-          log(`[v0] 🔴 Early disconnection - trying smaller transfer size`)
-          continue
-        }
+  }, [simulate, attachDfuDevice, log])
+
+  /** Act on what came back after asking the panda to reboot into the bootloader */
+  const pickUpBootloader = useCallback(
+    async (result: ReattachResult) => {
+      if (result.outcome === "attached") {
+        log("[v0] 🔌 Bootloader is back and already permitted - connecting without the picker")
+        await attachDfuDevice(result.device)
+        return
+      }
+      setConnectionStep("dfu-mode")
+      if (result.outcome === "needs-permission") {
+        log("[v0] Bootloader not permitted yet - waiting for the user to pick it")
+        setStatusMessage(
+          'The panda is in DFU mode. Click "Connect DFU Device" and pick "STM32 BOOTLOADER" - the browser asks only once.',
+        )
       } else {
-        log(`[v0] ❌ Transfer failed: ${errorMsg}`)
+        log("[v0] ⚠️ Bootloader did not appear:", result.diagnosis)
+        setStatusMessage(result.diagnosis)
       }
-    }
-  }
-
-  const errorMsg = lastErr instanceof Error ? lastErr.message : String(lastErr)
-  if (errorMsg.includes("disconnected")) {
-    log(`[v0] 🎉 Flash completed successfully! Device disconnected after completion (normal behavior)`)
-    log(`[v0] 💡 Device will reboot automatically with new firmware`)
-    return true
-  }
-
-  throw lastErr
-}
+    },
+    [attachDfuDevice, log],
+  )
 
-/** ---------- Helpers to pick DFUSe alt/interface ---------- */
-const findDfuInterfaces = (device: USBDevice): DfuSettings[] => {
-  const matches: DfuSettings[] = []
-  for (const conf of device.configurations || []) {
-    for (const intf of conf.interfaces || []) {
-      for (const alt of intf.alternates || []) {
-        if (alt.interfaceClass === 0xfe && alt.interfaceSubclass === 0x01 && alt.interfaceProtocol === 0x02) {
-          matches.push({ configuration: conf, interface: intf, alternate: alt, name: alt.interfaceName })
-        }
-      }
+  // Waiting on step 3: a permitted bootloader plugged in by hand (button or jumper held) attaches by itself
+  useEffect(() => {
+    if (connectionStep !== "dfu-mode" || simulate || !navigator.usb) return
+    const onConnect = (e: USBConnectionEvent) => {
+      if (isStBootloader(e.device)) attachDfuDevice(e.device)
     }
-  }
-  return matches
-}
-
-/** ---------- Page Component ---------- */
-export default function Page() {
-  const { lines, log, clear } = useLogger()
-
-  const [connectionStep, setConnectionStep] = useState<"idle" | "normal" | "dfu-mode" | "dfu-connected">("idle")
-  const [normalDevice, setNormalDevice] = useState<USBDevice | null>(null)
-  const [dfuDevice, setDfuDevice] = useState<DfuDevice | null>(null)
-
-  const [firmwareType, setFirmwareType] = useState<"sunny-basic" | "sunny-advanced" | "upload">("sunny-basic")
-
-  const [progress, setProgress] = useState<{ done: number; total: number }>({ done: 0, total: 0 })
-  const [pandaBin, setPandaBin] = useState<ArrayBuffer | null>(null)
-  const [bootstubBin, setBootstubBin] = useState<ArrayBuffer | null>(null)
-  const [statusMessage, setStatusMessage] = useState<string>("")
-
-  const [dfuButtonDisabled, setDfuButtonDisabled] = useState(false)
+    navigator.usb.addEventListener("connect", onConnect)
+    return () => navigator.usb.removeEventListener("connect", onConnect)
+  }, [connectionStep, simulate, attachDfuDevice])
 
   const connectNormalDevice = useCallback(async () => {
     clear()
     setStatusMessage("")
+    setIdentity(null)
 
     if (!navigator.usb) {
       const errorMsg = "WebUSB not supported. Please use Chrome/Edge on HTTPS."
@@ -442,19 +314,26 @@ export default function Page() {
 
       log("[v0] Found device:", device.productName || "Unknown Device")
 
-      // Check if already in DFU mode
-      if (device.productId === 0xdf11) {
-        log("[v0] Device already in DFU mode, proceeding to step 3")
-        setConnectionStep("dfu-mode")
-        setStatusMessage('Device is already in DFU mode. Click "Connect DFU Device" to continue.')
+      // Already in DFU mode: the user just granted the bootloader, so connect to it directly
+      if (isStBootloader(device)) {
+        log("[v0] Device already in DFU mode, skipping to step 3")
+        await attachDfuDevice(device)
         return
       }
 
-      if (device.productName?.toLowerCase().includes("panda") || device.vendorId === 0xbbaa) {
+      if (device.productName?.toLowerCase().includes("panda") || isPanda(device)) {
         setNormalDevice(device)
         setConnectionStep("normal")
         setStatusMessage("Connected to panda device. Click 'Enter DFU Mode' to continue.")
         log("[v0] Connected to normal panda device")
+
+        try {
+          const id = await new PandaClient(device).identify()
+          setIdentity(id)
+          log(`[v0] 🪪 ${formatIdentity(id)}`)
+        } catch (e) {
+          log(`[v0] ⚠️ Could not read panda identity: ${e instanceof Error ? e.message : String(e)}`)
+        }
       } else {
         // Try to connect anyway but warn user
         setNormalDevice(device)
@@ -474,19 +353,22 @@ export default function Page() {
 
       setStatusMessage(errorMsg)
     }
-  }, [clear, log])
+  }, [clear, attachDfuDevice, log])
 
   const enterDfuMode = useCallback(async () => {
     if (!normalDevice) return
 
     setDfuButtonDisabled(true)
-    setTimeout(() => setDfuButtonDisabled(false), 5000)
+    // Watch the bus before sending anything: the panda's disconnect is part of the answer
+    const stopWaiting = new AbortController()
+    const reattach = waitForBootloader(navigator.usb, { panda: normalDevice, signal: stopWaiting.signal })
 
     try {
       setStatusMessage("Entering DFU mode...")
       log("[v0] Sending DFU mode command...")
 
-      await normalDevice.open()
+      const panda = new PandaClient(normalDevice)
+      await panda.open()
 
       let success = false
       for (let attempt = 1; attempt <= 3; attempt++) {
@@ -494,26 +376,16 @@ export default function Page() {
           log(`[v0] DFU mode attempt ${attempt}/3...`)
 
           // Send recover command (vendor-specific control transfer)
-          const result = await normalDevice.controlTransferOut({
-            requestType: "vendor",
-            recipient: "device",
-            request: 0xd1, // recover command
-            value: 0,
-            index: 0,
-          })
-
-          if (result.status === "ok") {
-            log("[v0] DFU mode command sent successfully")
-            success = true
-            break
-          }
+          await panda.enterBootloader("st-dfu")
+          log("[v0] DFU mode command sent successfully")
+          success = true
+          break
         } catch (error: any) {
           log(`[v0] DFU mode attempt ${attempt} error:`, error.message)
-          if (attempt === 3 || error.message.includes("disconnected")) {
-            // If disconnected, that's actually success
-            if (error.message.includes("disconnected")) {
-              success = true
-            }
+          // The panda drops off the bus as it reboots into the bootloader: that is success
+          const rebooted = error instanceof DfuTransportError && error.disconnected
+          if (attempt === 3 || rebooted) {
+            success = rebooted
             break
           }
           // Wait a bit before retry
@@ -521,72 +393,32 @@ export default function Page() {
         }
       }
 
-      if (success) {
-        log("[v0] Waiting for device to fully enter DFU mode...")
-        await new Promise((resolve) => setTimeout(resolve, 3000))
-      }
+      if (success) log("[v0] Waiting for the panda to come back as the ST bootloader...")
+      setStatusMessage("Waiting for the panda to restart in DFU mode...")
 
       // Device will disconnect when entering DFU mode
-      try {
-        await normalDevice.close()
-      } catch {
-        // Expected - device disconnects
-      }
+      await panda.close().catch(() => {})
 
       setNormalDevice(null)
-      setConnectionStep("dfu-mode")
-      setStatusMessage('Device entered DFU mode successfully! Click "Connect DFU Device" to continue.')
-      log("[v0] Device should now be in DFU mode")
+      await pickUpBootloader(await reattach)
     } catch (error: any) {
       log("[v0] DFU mode entry error:", error.message)
       // Even if we get a disconnect error, the device likely entered DFU mode
-      if (error.message.includes("disconnected")) {
+      if (error instanceof DfuTransportError && error.disconnected) {
+        log("[v0] Device disconnected (expected) - waiting for the bootloader")
         setNormalDevice(null)
-        setConnectionStep("dfu-mode")
-        setStatusMessage('Device entered DFU mode successfully! Click "Connect DFU Device" to continue.')
-        log("[v0] Device disconnected (expected) - now in DFU mode")
+        await pickUpBootloader(await reattach)
       } else {
         setStatusMessage(
           `Failed to enter DFU mode: ${error.message}. Try disconnecting and reconnecting the device, then try again.`,
         )
       }
+    } finally {
+      // A request that failed before the panda rebooted leaves nothing to wait for
+      stopWaiting.abort()
+      setDfuButtonDisabled(false)
     }
-  }, [normalDevice, log])
-
-  const connectDfuDevice = useCallback(async () => {
-    try {
-      setStatusMessage("Connecting to DFU device...")
-
-      const device = await navigator.usb.requestDevice({
-        filters: [
-          { vendorId: 0x0483, productId: 0xdf11 }, // ST DFU (DFUSe)
-          { classCode: 0xfe, subclassCode: 0x01 }, // DFU class
-        ],
-      })
-
-      log("[v0] Found DFU device:", device.productName || "STM32 BOOTLOADER")
-
-      const dfuIfs = findDfuInterfaces(device)
-      if (dfuIfs.length === 0) {
-        throw new Error("No DFU (protocol 2) interface found. Device may not be in DFU mode.")
-      }
-
-      const settings = dfuIfs[0]
-      log("[v0] Selected DFU interface/alt:", settings.interface.interfaceNumber, settings.alternate.alternateSetting)
-
-      const dev = new DfuDevice(device, settings)
-      dev.logProgress = (done, total) => setProgress({ done, total: total ?? done })
-      await dev.open()
-
-      setDfuDevice(dev)
-      setConnectionStep("dfu-connected")
-      setStatusMessage("DFU device connected successfully! Ready to flash firmware.")
-      log("[v0] DFU device opened successfully")
-    } catch (e: any) {
-      log("[v0] DFU connect failed:", e?.message || String(e))
-      setStatusMessage(`DFU connection failed: ${e?.message || String(e)}`)
-    }
-  }, [log])
+  }, [normalDevice, pickUpBootloader, log])
 
   const disconnect = useCallback(async () => {
     try {
@@ -602,251 +434,797 @@ export default function Page() {
   }, [dfuDevice, normalDevice, log])
 
   const isFirmwareReady = useCallback(() => {
-    if (firmwareType === "sunny-basic" || firmwareType === "sunny-advanced") {
+    if (selectedVariant) {
       return true // Prebuilt options don't need uploaded files
     }
-    return pandaBin && bootstubBin // Upload option requires both files
-  }, [firmwareType, pandaBin, bootstubBin])
-
-  const loadFirmware = useCallback(async () => {
-    if (firmwareType === "sunny-basic") {
-      log("[v0] Loading SunnyPilot Basic firmware from GitHub...")
-      setStatusMessage("Downloading SunnyPilot Basic firmware...")
-
-      try {
-        const [pandaResponse, bootstubResponse] = await Promise.all([
-          fetch("https://raw.githubusercontent.com/aidin9/pandaFlash/main/prebuilt-binaries/sunny-basic/panda.bin"),
-          fetch(
-            "https://raw.githubusercontent.com/aidin9/pandaFlash/main/prebuilt-binaries/sunny-basic/bootstub.panda.bin",
-          ),
-        ])
-
-        if (!pandaResponse.ok) {
-          if (pandaResponse.status === 404) {
-            throw new Error(
-              `SunnyPilot Basic panda.bin not found in repository. Please check if the file exists at: prebuilt-binaries/sunny-basic/panda.bin`,
-            )
-          }
-          throw new Error(`Failed to fetch panda.bin: ${pandaResponse.status} ${pandaResponse.statusText}`)
-        }
-        if (!bootstubResponse.ok) {
-          if (bootstubResponse.status === 404) {
-            throw new Error(
-              `SunnyPilot Basic bootstub.panda.bin not found in repository. Please check if the file exists at: prebuilt-binaries/sunny-basic/bootstub.panda.bin`,
-            )
-          }
-          throw new Error(
-            `Failed to fetch bootstub.panda.bin: ${bootstubResponse.status} ${bootstubResponse.statusText}`,
-          )
-        }
-
-        const pandaBuffer = await pandaResponse.arrayBuffer()
-        const bootstubBuffer = await bootstubResponse.arrayBuffer()
+    if (firmwareType === "restore") {
+      return !!backup // Restore needs a backup taken this session or loaded from disk
+    }
+    return !!container || !!pandaBin // Upload option requires a container or at least panda.bin
+  }, [selectedVariant, firmwareType, container, pandaBin, backup])
 
-        log(`[v0] Downloaded panda.bin (${pandaBuffer.byteLength} bytes)`)
-        log(`[v0] Downloaded bootstub.panda.bin (${bootstubBuffer.byteLength} bytes)`)
+  const saveBackup = useCallback((data: ArrayBuffer, fileName: string) => {
+    const url = URL.createObjectURL(new Blob([data], { type: "application/octet-stream" }))
+    setBackup({ data, fileName, url })
+  }, [])
 
-        return { pandaBuffer, bootstubBuffer }
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : String(error)
-        if (errorMsg.includes("not found in repository")) {
-          log("[v0] 💡 Suggestion: Try using 'Upload Custom Files' option instead")
-          setStatusMessage(`${errorMsg}. Try using 'Upload Custom Files' option instead.`)
-        }
-        throw error
-      }
+  useEffect(() => {
+    return () => {
+      if (backup) URL.revokeObjectURL(backup.url)
     }
+  }, [backup])
 
-    if (firmwareType === "sunny-advanced") {
-      log("[v0] Loading SunnyPilot Advanced firmware from GitHub...")
-      setStatusMessage("Downloading SunnyPilot Advanced firmware...")
+  const loadFirmware = useCallback(async (): Promise<FirmwareImage[]> => {
+    if (selectedVariant) {
+      log(`[v0] Loading ${selectedVariant.name} firmware from GitHub...`)
+      setStatusMessage(`Downloading ${selectedVariant.name} firmware...`)
 
       try {
-        const [pandaResponse, bootstubResponse] = await Promise.all([
-          fetch("https://raw.githubusercontent.com/aidin9/pandaFlash/main/prebuilt-binaries/sunny-advanced/panda.bin"),
-          fetch(
-            "https://raw.githubusercontent.com/aidin9/pandaFlash/main/prebuilt-binaries/sunny-advanced/bootstub.panda.bin",
-          ),
-        ])
-
-        if (!pandaResponse.ok) {
-          if (pandaResponse.status === 404) {
-            throw new Error(
-              `SunnyPilot Advanced panda.bin not found in repository. Please upload the file to: prebuilt-binaries/sunny-advanced/panda.bin`,
-            )
-          }
-          throw new Error(`Failed to fetch advanced panda.bin: ${pandaResponse.status} ${pandaResponse.statusText}`)
+        const images = await fetchVariant(selectedVariant)
+        for (const img of images) {
+          log(`[v0] Downloaded ${img.name} (${img.data.byteLength} bytes), SHA-256 ${img.sha256} matches catalog`)
         }
-        if (!bootstubResponse.ok) {
-          if (bootstubResponse.status === 404) {
-            throw new Error(
-              `SunnyPilot Advanced bootstub.panda.bin not found in repository. Please upload the file to: prebuilt-binaries/sunny-advanced/bootstub.panda.bin`,
-            )
-          }
-          throw new Error(
-            `Failed to fetch advanced bootstub.panda.bin: ${bootstubResponse.status} ${bootstubResponse.statusText}`,
-          )
-        }
-
-        const pandaBuffer = await pandaResponse.arrayBuffer()
-        const bootstubBuffer = await bootstubResponse.arrayBuffer()
-
-        log(`[v0] Downloaded advanced panda.bin (${pandaBuffer.byteLength} bytes)`)
-        log(`[v0] Downloaded advanced bootstub.panda.bin (${bootstubBuffer.byteLength} bytes)`)
-
-        return { pandaBuffer, bootstubBuffer }
+        return images
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : String(error)
-        if (errorMsg.includes("not found in repository")) {
+        if (error instanceof FirmwareNotFoundError) {
           log("[v0] 💡 Suggestion: Try using 'Upload Custom Files' option instead")
           setStatusMessage(`${errorMsg}. Try using 'Upload Custom Files' option instead.`)
         }
+        if (error instanceof IntegrityError) {
+          log("[v0] 🛑 Refusing to flash a file that does not match the catalog")
+        }
         throw error
       }
     }
 
     // Use uploaded files
-    if (!pandaBin || !bootstubBin) {
-      throw new Error("Please upload both panda.bin and bootstub.panda.bin files")
+    if (container) {
+      log(`[v0] Using ${container.images.length} image(s) from ${container.source}`)
+      return container.images
     }
-    return { pandaBuffer: pandaBin, bootstubBuffer: bootstubBin }
-  }, [firmwareType, pandaBin, bootstubBin, log])
-
-  const flash = useCallback(async () => {
-    if (!dfuDevice) {
-      setStatusMessage("No DFU device connected")
-      return
-    }
-
-    if (!isFirmwareReady()) {
-      setStatusMessage("Please upload both panda.bin and bootstub.panda.bin files")
-      return
+    if (!pandaBin) {
+      throw new Error("Please upload panda.bin (and bootstub.panda.bin to update the bootstub as well)")
     }
-
-    try {
-      setStatusMessage("Loading firmware...")
-      const { pandaBuffer, bootstubBuffer } = await loadFirmware()
-
-      setStatusMessage("Starting firmware flash...")
-      log(
-        `[v0] 🚀 Starting flash process — Panda: ${pandaBuffer.byteLength} bytes, Bootstub: ${bootstubBuffer.byteLength} bytes`,
+    // panda.bin alone is an app-only update: the panda keeps its bootstub
+    return [
+      { name: "panda.bin", address: APP_ADDRESS, data: pandaBin },
+      ...(bootstubBin ? [{ name: "bootstub.panda.bin", address: BOOTSTUB_ADDRESS, data: bootstubBin }] : []),
+    ]
+  }, [selectedVariant, container, pandaBin, bootstubBin, log])
+
+  /** Wait for the panda to come back after a flash and report whether it runs the written app */
+  const confirmBoot = useCallback(
+    async (app: ArrayBuffer, readBack: boolean, leaving?: USBDevice): Promise<JobOutcome> => {
+      const report = (ok: boolean, message: string) => {
+        setStatusMessage(message)
+        return { ok, message }
+      }
+      log("[v0] ⏳ Waiting for the panda to re-enumerate in normal mode...")
+      const confirmation = await confirmFlash(navigator.usb, app, undefined, leaving)
+      if (confirmation.outcome === "verified") {
+        setIdentity(confirmation.identity)
+        log(`[v0] 🎉 FLASH CONFIRMED! ${formatIdentity(confirmation.identity)}`)
+        return report(true, `🎉 Flash confirmed: the panda is running ${confirmation.identity.version}.`)
+      } else if (confirmation.outcome === "mismatch") {
+        const { identity: running, expected } = confirmation
+        setIdentity(running)
+        log(`[v0] ❌ Version mismatch: ${formatIdentity(running)}${expected ? `, expected ${expected}` : ""}`)
+        return report(
+          false,
+          running.mode === "bootstub"
+            ? `❌ The panda came back in its bootstub (${running.bootstubVersion || "unknown version"}): the bootstub refused the flashed app. Check the app's signature and flash again.`
+            : `❌ The panda came back running ${running.version || "an unknown version"}, not the flashed firmware${expected ? ` (${expected})` : ""}. Flash again.`,
+        )
+      }
+      log("[v0] ⚠️ The panda did not re-enumerate - booting the new firmware is not confirmed")
+      log("[v0] 💡 Only a panda this page was allowed to use is visible to it after it reboots")
+      return report(
+        false,
+        `⚠️ The flash was ${readBack ? "verified" : "written"}, but the panda did not come back in normal mode${confirmation.reason ? ` (${confirmation.reason})` : ""}. Unplug and replug it; if it still does not appear, reconnect it in DFU mode and flash again.`,
       )
+    },
+    [log],
+  )
+
+  const flash = useCallback(
+    async (hooks: JobHooks = {}): Promise<JobOutcome> => {
+      const report = (ok: boolean, message: string) => {
+        setStatusMessage(message)
+        return { ok, message }
+      }
+      const device = hooks.device ?? dfuDevice
+      if (!device) return report(false, "No DFU device connected")
 
-      // Read the device's transfer size
-      const transferSize = await dfuDevice.getTransferSize()
-      const ladder = [transferSize, 2048, 1024, 512, 256]
-      log(`[v0] 📋 Device transfer size: ${transferSize}, fallback ladder: [${ladder.join(", ")}]`)
+      if (!isFirmwareReady()) return report(false, "Please upload panda.bin, or a .dfu, .hex or .elf file")
 
-      const withTimeout = async (promise: Promise<any>, timeoutMs: number, operation: string): Promise<any> => {
-        const timeoutPromise = new Promise<never>((_, reject) => {
-          setTimeout(() => reject(new Error(`${operation} timed out after ${timeoutMs}ms`)), timeoutMs)
-        })
-        return Promise.race([promise, timeoutPromise])
+      const unsupported = identity && identity.hwType !== "unknown" ? identity.hwType : null
+      if (selectedVariant && unsupported && !supportsHardware(selectedVariant, unsupported)) {
+        log(`[v0] 🛑 ${selectedVariant.name} does not support ${unsupported} pandas`)
+        return report(
+          false,
+          `🛑 Flash blocked: ${selectedVariant.name} is built for ${selectedVariant.hardware.join("/")} pandas, but this is a ${unsupported} panda. Nothing was written to the device.`,
+        )
       }
 
-      // ---- PHASE 1: Flash panda.bin @ 0x08004000 ----
-      log(`[v0] 📝 PHASE 1: Flashing panda.bin (${pandaBuffer.byteLength} bytes)`)
-      setStatusMessage("Erasing panda firmware area...")
-      log("[v0] 🗑️ Erasing panda pages (0x08004000, 0x08008000, 0x0800c000)")
+      let backupImage: ArrayBuffer | null = null
+      setRollbackImage(null)
+      setImageDigests([])
+      const controller = new AbortController()
+      setJob(controller)
 
-      await withTimeout(dfuDevice.dfuseErase(0x08004000), 10000, "Erase 0x08004000")
-      await withTimeout(dfuDevice.dfuseErase(0x08008000), 10000, "Erase 0x08008000")
-      await withTimeout(dfuDevice.dfuseErase(0x0800c000), 10000, "Erase 0x0800c000")
+      try {
+        setStatusMessage("Loading firmware...")
+        const images = hooks.images ?? (await loadFirmware())
+
+        const plan = await planFlash(images, memoryLayout, log)
+        setImageDigests(plan.steps.map((s) => ({ name: s.name, sha256: s.sha256, known: s.knownHash })))
+
+        const app = images.find((img) => img.address === APP_ADDRESS)
+        if (app) {
+          const bootstub = images.find((img) => img.address === BOOTSTUB_ADDRESS)
+          const check = await checkAppSignature(app.data, bootstub?.data)
+          if (check.signer) log(`[v0] 🔏 ${app.name} is signed with the ${check.signer.name}`)
+          for (const warning of check.warnings) log(`[v0] ⚠️ ${app.name}: ${warning}`)
+        }
 
-      setStatusMessage("Writing panda firmware...")
-      log("[v0] 📍 Setting address to 0x08004000")
-      await withTimeout(dfuDevice.dfuseSetAddress(0x08004000), 5000, "Set address 0x08004000")
+        const result = await flashFirmware(device, plan, {
+          log,
+          onStatus: setStatusMessage,
+          onProgress: (p) => {
+            setProgress(p)
+            if (p.kind) hooks.onPhase?.(p.kind)
+          },
+          backup: hooks.backup ?? backupBeforeFlash,
+          smart: smartFlash,
+          signal: controller.signal,
+          onBackup: (image) => {
+            const fileName = backupFileName(device.device)
+            saveBackup(image, fileName)
+            backupImage = image
+            log(`[v0] ✅ Backup saved as ${fileName} - download it before closing this page`)
+          },
+        })
 
-      const pandaSuccess = await withTimeout(
-        flashWithRetry("panda.bin", pandaBuffer, dfuDevice, log),
-        45000,
-        "Write panda.bin",
-      )
+        const written =
+          result.sectorsSkipped > 0
+            ? `${result.sectorsWritten} sectors rewritten, ${result.sectorsSkipped} already up to date`
+            : `${images.map((img) => img.name).join(" and ")} written`
+        const checked = result.verified ? "read back and verified" : "written (this bootloader cannot read flash back)"
+        log(`[v0] ✅ Flash ${checked}: ${written}`)
+
+        // Success is only reported once the panda is back and runs the app that was written
+        if (simulate || !app) {
+          return report(
+            true,
+            `✅ Flash ${checked} (${written}). ${simulate ? "The simulator has no panda to reboot" : "No panda app was flashed"}, so booting was not confirmed.`,
+          )
+        }
 
-      if (!pandaSuccess) {
-        throw new Error("Failed to write panda.bin")
+        setStatusMessage(
+          `Flash ${result.verified ? "verified" : "written"}. Waiting for the panda to reboot into the new firmware...`,
+        )
+        return await confirmBoot(app.data, result.verified)
+      } catch (e: any) {
+        const errorMsg = e?.message || String(e)
+        const help = explainDfuError(e)
+        log(`[v0] ❌ Flash failed: ${errorMsg}`)
+
+        if (e instanceof IntegrityError || e instanceof ImageValidationError) {
+          return report(false, `🛑 Flash blocked: ${errorMsg}. Nothing was written to the device.`)
+        } else if (help) {
+          const icon =
+            e instanceof DfuCancelledError
+              ? "⏹️"
+              : e instanceof DfuTimeoutError
+                ? "⏱️"
+                : e instanceof DfuTransportError && e.disconnected
+                  ? "⚠️"
+                  : "❌"
+          log(`[v0] 💡 ${help.recovery}`)
+          if (e instanceof DfuError && e.partialSectors.length > 0 && backupImage) {
+            setRollbackImage(backupImage)
+            log("[v0] 💡 A pre-flash backup is available for rollback")
+          }
+          return report(false, `${icon} ${help.explanation} ${help.recovery}`)
+        } else if (e instanceof DfuVerifyError) {
+          if (backupImage) {
+            setRollbackImage(backupImage)
+            log("[v0] 💡 A pre-flash backup is available for rollback")
+            return report(false, `❌ ${errorMsg}. Click "Roll Back to Backup" to restore the image taken before flashing.`)
+          }
+          return report(false, `❌ ${errorMsg}`)
+        }
+        return report(false, `❌ Flash failed: ${errorMsg}`)
+      } finally {
+        setJob(null)
       }
+    },
+    [
+      dfuDevice,
+      loadFirmware,
+      log,
+      isFirmwareReady,
+      backupBeforeFlash,
+      smartFlash,
+      saveBackup,
+      selectedVariant,
+      memoryLayout,
+      identity,
+      simulate,
+      confirmBoot,
+    ],
+  )
 
-      // Brief pause between phases
-      await new Promise((resolve) => setTimeout(resolve, 1000))
+  /**
+   * App-only update through the panda's bootstub; the version it boots is the verification.
+   * Throws BootstubFlasherError when the bootstub cannot flash, before anything is erased.
+   */
+  const flashThroughBootstub = useCallback(
+    async (device: USBDevice, images: FirmwareImage[], hooks: JobHooks = {}): Promise<JobOutcome> => {
+      const report = (ok: boolean, message: string) => {
+        setStatusMessage(message)
+        return { ok, message }
+      }
+      setImageDigests([])
+      const controller = new AbortController()
+      setJob(controller)
+      try {
+        const plan = await planFlash(images, memoryLayout, log)
+        setImageDigests(plan.steps.map((s) => ({ name: s.name, sha256: s.sha256, known: s.knownHash })))
+        const app = plan.steps[0]
+        // The bootstub on the panda checks the signature before it boots the app: one it would refuse
+        // must not replace the app it boots now, or the panda is left in its bootstub with no app
+        const check = await checkAppSignature(app.data)
+        for (const warning of check.warnings) log(`[v0] ⚠️ ${app.name}: ${warning}`)
+        if (!check.signer) {
+          throw new ImageValidationError(
+            `${app.name} is not signed with a known key, so the panda's bootstub would refuse to boot it - flash it together with a matching bootstub through DFU mode`,
+          )
+        }
+        log(`[v0] 🔏 ${app.name} is signed with the ${check.signer.name}`)
+
+        await flashViaBootstub(new BootstubClient(device), app.data, memoryLayout, {
+          log,
+          onStatus: setStatusMessage,
+          onProgress: (p) => {
+            setProgress(p)
+            if (p.kind) hooks.onPhase?.(p.kind)
+          },
+          signal: controller.signal,
+        })
+        log(`[v0] ✅ ${app.name} written through the bootstub`)
+        setStatusMessage("App written. Waiting for the panda to boot it...")
+        // The bootstub is still listed until its disconnect is processed; only the app counts
+        return await confirmBoot(app.data, false, device)
+      } catch (e: any) {
+        // Nothing was touched; the caller goes through DFU mode instead
+        if (e instanceof BootstubFlasherError) throw e
+        const errorMsg = e?.message || String(e)
+        log(`[v0] ❌ Bootstub flash failed: ${errorMsg}`)
+        if (e instanceof ImageValidationError) {
+          return report(false, `🛑 Flash blocked: ${errorMsg}. Nothing was written to the device.`)
+        }
+        const help = explainDfuError(e)
+        // Whatever was written, the bootstub refuses to boot an incomplete app and waits for the next try
+        return report(
+          false,
+          `❌ ${help ? help.explanation : errorMsg} The panda stays in its bootstub until a complete app is flashed - retry.`,
+        )
+      } finally {
+        setJob(null)
+      }
+    },
+    [memoryLayout, confirmBoot, log],
+  )
 
-      // ---- PHASE 2: Flash bootstub.panda.bin @ 0x08000000 ----
-      log(`[v0] 📝 PHASE 2: Flashing bootstub.panda.bin (${bootstubBuffer.byteLength} bytes)`)
+  /** Write a full flash image back to the start of flash, verify it and reboot */
+  const restoreImage = useCallback(
+    async (image: ArrayBuffer, hooks: JobHooks = {}): Promise<JobOutcome> => {
+      const report = (ok: boolean, message: string) => {
+        setStatusMessage(message)
+        return { ok, message }
+      }
+      const device = hooks.device ?? dfuDevice
+      if (!device) return report(false, "No DFU device connected")
 
-      // Try to reconnect if device disconnected
+      const controller = new AbortController()
+      setJob(controller)
       try {
-        await dfuDevice.getState()
-        log("[v0] ✅ Device still connected, proceeding with bootstub")
-      } catch (e) {
-        log("[v0] ⚠️ Device disconnected after panda.bin - this is often normal")
-        log("[v0] 🔄 Attempting to continue with bootstub flash...")
+        const verified = await restoreFlash(device, image, memoryLayout, {
+          log,
+          onStatus: setStatusMessage,
+          onProgress: (p) => {
+            setProgress(p)
+            if (p.kind) hooks.onPhase?.(p.kind)
+          },
+          signal: controller.signal,
+        })
+        setRollbackImage(null)
+        log("[v0] ✅ RESTORE COMPLETE")
+        return report(true, `✅ Backup restored${verified ? " and verified" : ""}! Device is rebooting.`)
+      } catch (e: any) {
+        const errorMsg = e?.message || String(e)
+        log(`[v0] ❌ Restore failed: ${errorMsg}`)
+        const help = explainDfuError(e)
+        return report(
+          false,
+          help
+            ? `❌ Restore failed: ${help.explanation} ${help.recovery}`
+            : `❌ Restore failed: ${errorMsg}. The device is still in DFU mode - try again.`,
+        )
+      } finally {
+        setJob(null)
       }
+    },
+    [dfuDevice, log, memoryLayout],
+  )
 
-      setStatusMessage("Erasing bootstub area...")
-      log("[v0] 🗑️ Erasing bootstub page (0x08000000)")
-      await withTimeout(dfuDevice.dfuseErase(0x08000000), 10000, "Erase 0x08000000")
+  const restoreBackup = useCallback(
+    async (hooks: JobHooks = {}): Promise<JobOutcome> => {
+      if (!backup) {
+        setStatusMessage("Please load a backup .bin file first")
+        return { ok: false, message: "Please load a backup .bin file first" }
+      }
+      return restoreImage(backup.data, hooks)
+    },
+    [backup, restoreImage],
+  )
+
+  /** ---------- Recovery: a panda that no longer boots, reached through BOOT0 ---------- */
+  const recover = useCallback(async () => {
+    const report = (message: string) => setStatusMessage(message)
+    if (!dfuDevice) return report("Connect to the ST bootloader first")
+
+    // Whatever is selected, recovery writes a catalog pair: an upload may be the firmware that broke it
+    const variant = selectedVariant ?? defaultVariant
+    setReadProtected(false)
+    setImageDigests([])
+    const controller = new AbortController()
+    setJob(controller)
+    try {
+      log(`[v0] 🛟 Recovering with ${variant.name}${massErase ? " after a mass erase" : ""}`)
+      setStatusMessage(`Downloading ${variant.name} firmware...`)
+      const images = await fetchVariant(variant)
+      const plan = await planFlash(images, memoryLayout, log)
+      setImageDigests(plan.steps.map((s) => ({ name: s.name, sha256: s.sha256, known: s.knownHash })))
+
+      const result = await recoverPanda(dfuDevice, plan, {
+        log,
+        onStatus: setStatusMessage,
+        onProgress: setProgress,
+        massErase,
+        signal: controller.signal,
+      })
+      const checked = result.verified ? "read back and verified" : "written"
+      log(`[v0] ✅ Recovery flash ${checked}: ${images.map((img) => img.name).join(" and ")} written`)
 
-      setStatusMessage("Writing bootstub firmware...")
-      log("[v0] 📍 Setting address to 0x08000000")
-      await withTimeout(dfuDevice.dfuseSetAddress(0x08000000), 5000, "Set address 0x08000000")
+      const app = images.find((img) => img.address === APP_ADDRESS)
+      if (simulate || !app) {
+        return report(`✅ Recovery flash ${checked}. The simulator has no panda to reboot.`)
+      }
+      setStatusMessage(`Recovery flash ${result.verified ? "verified" : "written"}. Waiting for the panda to boot...`)
+      await confirmBoot(app.data, result.verified)
+    } catch (e: any) {
+      const errorMsg = e?.message || String(e)
+      log(`[v0] ❌ Recovery failed: ${errorMsg}`)
+      const help = explainDfuError(e)
+      if (e instanceof DfuProtectedError) setReadProtected(true)
+      if (help) log(`[v0] 💡 ${help.recovery}`)
+      report(help ? `❌ ${help.explanation} ${help.recovery}` : `❌ Recovery failed: ${errorMsg}`)
+    } finally {
+      setJob(null)
+    }
+  }, [dfuDevice, selectedVariant, massErase, memoryLayout, simulate, confirmBoot, log])
 
-      const bootstubSuccess = await withTimeout(
-        flashWithRetry("bootstub.panda.bin", bootstubBuffer, dfuDevice, log),
-        30000,
-        "Write bootstub.panda.bin",
+  /** ---------- Option bytes: readout and write protection the bootloader will not explain ---------- */
+  const inspectOptionBytes = useCallback(async () => {
+    const alternate = findOptionBytesAlternate(dfuAlternates)
+    if (!dfuDevice || !alternate) {
+      setStatusMessage("This bootloader does not expose an option bytes alternate")
+      return
+    }
+    try {
+      log(`[v0] 🔍 Reading option bytes through alternate ${alternate.alternate.alternateSetting}...`)
+      const ob = await readOptionBytes(dfuDevice, alternate, memoryLayout.sectors.length)
+      for (const line of describeOptionBytes(ob)) log(`[v0]    ${line}`)
+      setOptionBytes(ob)
+      setReadProtected(ob.rdp !== 0)
+      setStatusMessage(
+        ob.writeProtected.length
+          ? `Sectors ${ob.writeProtected.join(", ")} are write-protected: erasing or writing them fails with errERASE/errWRITE.`
+          : `Option bytes read: RDP ${RDP_DESCRIPTION[ob.rdp]}.`,
       )
+    } catch (e: any) {
+      log(`[v0] ❌ Reading option bytes failed: ${e?.message || String(e)}`)
+      setStatusMessage(`❌ Reading option bytes failed: ${e?.message || String(e)}`)
+    }
+  }, [dfuDevice, dfuAlternates, memoryLayout, log])
+
+  /** DFUSe READ UNPROTECT: RDP level 1 back to 0, which mass-erases the flash */
+  const removeReadProtection = useCallback(async () => {
+    if (!dfuDevice || !unprotectConfirmed) return
+    setUnprotectConfirmed(false)
+    const controller = new AbortController()
+    setJob(controller)
+    try {
+      log("[v0] 🔓 Removing read protection - the bootloader mass-erases the flash...")
+      setStatusMessage("Removing read protection and erasing the flash...")
+      await dfuDevice.dfuseReadUnprotect(controller.signal)
+      log("[v0] ✅ Read protection removed")
+      setReadProtected(false)
+      setOptionBytes(null)
+      setStatusMessage(
+        simulate
+          ? "✅ Read protection removed and the flash erased. Run recovery to flash the panda again."
+          : "✅ Read protection removed and the flash erased. The bootloader resets now: power-cycle the panda with BOOT0 held, reconnect and run recovery.",
+      )
+    } catch (e: any) {
+      log(`[v0] ❌ Removing read protection failed: ${e?.message || String(e)}`)
+      const help = explainDfuError(e)
+      setStatusMessage(
+        help
+          ? `❌ ${help.explanation} ${help.recovery}`
+          : `❌ Removing read protection failed: ${e?.message || String(e)}`,
+      )
+    } finally {
+      setJob(null)
+    }
+  }, [dfuDevice, unprotectConfirmed, simulate, log])
+
+  /** ---------- Guided flow: one button from a plugged-in panda to confirmed firmware ---------- */
+  const runGuided = useCallback(
+    async (resumeAt: FlowStepId = "connect") => {
+      if (!flowRef.current) flowRef.current = new GuidedFlow(setFlowSteps)
+      const flow = flowRef.current
+
+      let panda = normalDevice
+      let pandaId = identity
+      // A bootloader the last job rebooted out of is closed, and no use to a resumed run
+      let dfu = dfuDevice?.device.opened ? dfuDevice : null
+      // A resumed step needs the device the earlier steps left behind; go back far enough to get it.
+      // Writing, verifying and rebooting are one job, so a retry of any of them rewrites the image.
+      let from = stepIndex(resumeAt) > stepIndex("flash") ? "flash" : resumeAt
+      if (routeRef.current === "bootstub" && from !== "reattach") {
+        // Through the bootstub a retry is cheap, and the panda may be in either mode by now
+        from = "connect"
+      } else {
+        if (stepIndex(from) > stepIndex("reattach") && !dfu) from = "reattach"
+        if (stepIndex(from) < stepIndex("reattach") && !panda) from = "connect"
+      }
+      const runs = (id: FlowStepId) => stepIndex(id) >= stepIndex(from)
 
-      if (!bootstubSuccess) {
-        throw new Error("Failed to write bootstub.panda.bin")
+      /** Ask the panda to reboot; it drops off the bus doing so, which is success */
+      const reboot = async (device: USBDevice, target: "st-dfu" | "bootstub") => {
+        const client = new PandaClient(device)
+        try {
+          await client.open()
+          await client.enterBootloader(target)
+        } catch (e) {
+          if (!(e instanceof DfuTransportError && e.disconnected)) throw e
+        }
+        await client.close()
+        setNormalDevice(null)
       }
 
-      // Try to exit DFU mode gracefully
+      flow.reset(from)
+      setFlowRunning(true)
+      let images: FirmwareImage[] | undefined
       try {
-        log("[v0] 🚪 Attempting to exit DFU mode...")
-        await (dfuDevice as any).requestOut?.(0x00, new ArrayBuffer(0), 1000)
-        log("[v0] ✅ DFU exit command sent successfully")
-      } catch (e) {
-        log("[v0] 💡 DFU exit failed (normal) - device should reboot automatically")
-      }
+        if (runs("connect")) {
+          flow.enter("connect")
+          setStatusMessage("Connecting to the panda...")
+          // Devices granted on an earlier visit need no picker; otherwise this click opens it
+          const granted = simulate
+            ? []
+            : (await navigator.usb.getDevices()).filter((d) => isStBootloader(d) || isPanda(d))
+          const device = simulate
+            ? new SimulatedDfuseDevice()
+            : (granted.find(isStBootloader) ??
+              granted[0] ??
+              (await navigator.usb.requestDevice({
+                filters: [
+                  { vendorId: ST_VID, productId: ST_DFU_PID }, // already in DFU mode
+                  { vendorId: PANDA_VID }, // panda, running its app or its bootstub
+                ],
+              })))
+
+          if (device instanceof SimulatedDfuseDevice || isStBootloader(device)) {
+            log("[v0] Device already in DFU mode, skipping ahead to flashing")
+            flow.skip(["identify", "enter-dfu", "reattach"], "Already in DFU mode")
+            routeRef.current = "dfuse"
+            dfu = await openDfuDevice(device)
+            panda = null
+          } else {
+            panda = device
+            setNormalDevice(device)
+            setConnectionStep("normal")
+            flow.note(device.productName || "panda")
+            log("[v0] Connected to normal panda device")
+          }
+        }
 
-      setStatusMessage("🎉 Flash completed successfully! Device is rebooting with new firmware.")
-      log("[v0] 🎉 FLASH COMPLETE! Both panda.bin and bootstub.panda.bin written successfully")
-      log("[v0] 🔄 Device rebooted automatically - firmware update complete!")
-      log("[v0] ✨ Your panda device is now running the new SunnyPilot firmware")
-    } catch (e: any) {
-      const errorMsg = e?.message || String(e)
-      log(`[v0] ❌ Flash failed: ${errorMsg}`)
+        if (panda && runs("identify")) {
+          flow.enter("identify")
+          pandaId = null
+          let flasher: boolean | undefined
+          try {
+            pandaId = await new PandaClient(panda).identify()
+            setIdentity(pandaId)
+            flow.note(formatIdentity(pandaId))
+            log(`[v0] 🪪 ${formatIdentity(pandaId)}`)
+            // A panda already in its bootstub can say whether that bootstub is able to flash the app
+            if (pandaId.mode === "bootstub") flasher = await new BootstubClient(panda).flasherPresent()
+          } catch (e) {
+            if (!(e instanceof DfuTransportError)) throw e
+            flow.note(`Could not read the identity (${e.message})`)
+            log(`[v0] ⚠️ Could not read panda identity: ${e.message}`)
+          }
+          const hwType = pandaId?.hwType
+          if (selectedVariant && hwType && hwType !== "unknown" && !supportsHardware(selectedVariant, hwType)) {
+            throw new Error(
+              `${selectedVariant.name} is built for ${selectedVariant.hardware.join("/")} pandas, but this is a ${hwType} panda. Nothing was written to the device.`,
+            )
+          }
 
-      if (errorMsg.includes("timed out")) {
-        setStatusMessage(`⏱️ Flash failed: Operation timed out. Try disconnecting and reconnecting the device.`)
-      } else if (errorMsg.includes("disconnected")) {
-        setStatusMessage(`🎉 Flash likely completed! Device disconnected (normal after successful flash).`)
-        log("[v0] 💡 Disconnection after flashing usually indicates success - check if device boots normally")
-      } else {
-        setStatusMessage(`❌ Flash failed: ${errorMsg}`)
+          // An app-only update of a running panda goes through its bootstub; anything else needs the ST bootloader
+          if (firmwareType !== "restore") images = await loadFirmware()
+          const backend: FlashBackend = images
+            ? chooseBackend(pandaId, images, flasher)
+            : { kind: "dfuse", reason: "restoring a backup" }
+          routeRef.current = backend.kind
+          log(
+            backend.kind === "bootstub"
+              ? "[v0] 🥾 App-only update: flashing through the panda bootstub, no DFU mode needed"
+              : `[v0] Flashing through the ST bootloader: ${backend.reason}`,
+          )
+        }
+
+        let outcome: JobOutcome | undefined
+        if (routeRef.current === "bootstub") {
+          let bootstub = panda && isBootstub(panda) ? panda : null
+          let back: Promise<USBDevice | null> | undefined
+          if (bootstub) {
+            flow.skip(["enter-dfu", "reattach"], "Already in the bootstub")
+          } else if (panda && runs("enter-dfu")) {
+            flow.enter("enter-dfu", "Rebooting into the bootstub")
+            back = waitForBootstub(navigator.usb, 10000)
+            await reboot(panda, "bootstub")
+          }
+          if (!bootstub && runs("reattach")) {
+            flow.enter("reattach", "Waiting for the bootstub")
+            bootstub = back
+              ? await back
+              : ((await navigator.usb.getDevices()).find(isBootstub) ??
+                (await navigator.usb.requestDevice({ filters: [{ vendorId: PANDA_VID, productId: BOOTSTUB_PID }] })))
+          }
+          if (!bootstub) {
+            throw new GestureRequired('Click "Continue" and pick the panda bootstub - the browser asks only once.')
+          }
+
+          flow.skip(["backup"], "The bootstub cannot read flash back")
+          flow.skip(["verify"], "Checked by the version the panda boots")
+          flow.enter("flash")
+          images ??= await loadFirmware()
+          try {
+            outcome = await flashThroughBootstub(bootstub, images, {
+              onPhase: (kind) => flow.enter(stepForPhase(kind)),
+            })
+          } catch (e) {
+            if (!(e instanceof BootstubFlasherError)) throw e
+            // Nothing was written: have the bootstub reboot into the ST bootloader and go on from there
+            const backend = chooseBackend(pandaId, images, false)
+            routeRef.current = backend.kind
+            if (backend.kind === "dfuse") log(`[v0] Flashing through the ST bootloader: ${backend.reason}`)
+            panda = bootstub
+            from = "enter-dfu"
+            flow.reset(from)
+          }
+        }
+        if (!outcome) {
+          let reattach: Promise<ReattachResult> | undefined
+          if (panda && runs("enter-dfu")) {
+            flow.enter("enter-dfu")
+            setStatusMessage("Rebooting the panda into DFU mode...")
+            const stopWaiting = new AbortController()
+            reattach = waitForBootloader(navigator.usb, { panda, signal: stopWaiting.signal })
+            await reboot(panda, "st-dfu").catch((e) => {
+              stopWaiting.abort()
+              throw e
+            })
+            panda = null
+          }
+
+          if (!dfu && runs("reattach")) {
+            flow.enter("reattach")
+            setStatusMessage("Waiting for the panda to restart in DFU mode...")
+            let device: USBDevice
+            if (reattach) {
+              const result = await reattach
+              if (result.outcome === "not-found") throw new Error(result.diagnosis)
+              if (result.outcome === "needs-permission") {
+                setConnectionStep("dfu-mode")
+                throw new GestureRequired('Click "Continue" and pick "STM32 BOOTLOADER" - the browser asks only once.')
+              }
+              device = result.device
+            } else {
+              // Resumed by a click, which is good for one device picker if nothing is granted yet
+              device =
+                (await navigator.usb.getDevices()).find(isStBootloader) ??
+                (await navigator.usb.requestDevice({ filters: [{ vendorId: ST_VID, productId: ST_DFU_PID }] }))
+            }
+            dfu = await openDfuDevice(device)
+          }
+
+          const restoring = firmwareType === "restore"
+          const backupNow = runs("backup") && !restoring && backupBeforeFlash
+          if (runs("backup") && !backupNow) flow.skip(["backup"], restoring ? "Restoring a backup" : "Turned off")
+          flow.enter(backupNow ? "backup" : "flash")
+
+          const hooks: JobHooks = {
+            device: dfu ?? undefined,
+            backup: backupNow,
+            images,
+            onPhase: (kind) => flow.enter(stepForPhase(kind)),
+          }
+          outcome = restoring ? await restoreBackup(hooks) : await flash(hooks)
+        }
+        if (!outcome.ok) throw new Error(outcome.message)
+        flow.complete(outcome.message)
+      } catch (e: any) {
+        const message = e?.message || String(e)
+        if (e instanceof GestureRequired) {
+          flow.wait(message)
+          log(`[v0] 👉 ${message}`)
+        } else {
+          flow.fail(message)
+          log(`[v0] ❌ Guided flash stopped: ${message}`)
+        }
+        setStatusMessage(message)
+      } finally {
+        setFlowRunning(false)
       }
+    },
+    [
+      normalDevice,
+      identity,
+      dfuDevice,
+      simulate,
+      selectedVariant,
+      firmwareType,
+      backupBeforeFlash,
+      loadFirmware,
+      openDfuDevice,
+      restoreBackup,
+      flash,
+      flashThroughBootstub,
+      log,
+    ],
+  )
+
+  const onPickBackup = async (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const f = ev.currentTarget.files?.[0]
+    if (!f) return
+    const buf = await f.arrayBuffer()
+    const flashSize = layoutEnd(memoryLayout) - layoutStart(memoryLayout)
+    if (buf.byteLength === 0 || buf.byteLength > flashSize) {
+      log(`[v0] ❌ ${f.name} is ${buf.byteLength} bytes - a backup must be 1..${flashSize} bytes`)
+      setStatusMessage(`${f.name} does not look like a flash backup (${buf.byteLength} bytes)`)
+      return
     }
-  }, [dfuDevice, loadFirmware, log, isFirmwareReady])
+    saveBackup(buf, f.name)
+    log(`[v0] Loaded backup ${f.name} (${buf.byteLength} bytes)`)
+  }
 
   const onPickFiles = async (ev: React.ChangeEvent<HTMLInputElement>) => {
     const files = ev.currentTarget.files
     if (!files) return
     for (const f of Array.from(files)) {
       const buf = await f.arrayBuffer()
-      if (f.name.toLowerCase().includes("bootstub")) {
+
+      // .dfu, .hex and .elf carry their own load addresses
+      let images: FirmwareImage[] | null
+      try {
+        images = loadFirmwareFile(f.name, buf)
+      } catch (e) {
+        const errorMsg = e instanceof Error ? e.message : String(e)
+        log(`[v0] ❌ Rejected ${f.name}: ${errorMsg}`)
+        setStatusMessage(`Rejected ${f.name}: ${errorMsg}`)
+        continue
+      }
+      if (images) {
+        setContainer({ source: f.name, images })
+        setPandaBin(null)
+        setBootstubBin(null)
+        setUploadDigests({})
+        for (const img of images) {
+          log(`[v0] Loaded ${img.name}: ${hex(img.address)}..${hex(img.address + img.data.byteLength)}`)
+        }
+        continue
+      }
+      setContainer(null)
+
+      // The role comes from the vector table; the file name is only a hint
+      let role: "bootstub" | "app"
+      try {
+        role = analyzeImage(f.name, buf, layoutEnd(memoryLayout)).role
+      } catch (e) {
+        const errorMsg = e instanceof Error ? e.message : String(e)
+        log(`[v0] ❌ Rejected ${f.name}: ${errorMsg}`)
+        setStatusMessage(`Rejected ${f.name}: ${errorMsg}`)
+        continue
+      }
+      const namedBootstub = f.name.toLowerCase().includes("bootstub")
+      if (namedBootstub !== (role === "bootstub")) {
+        log(`[v0] ⚠️ ${f.name} is named like a ${namedBootstub ? "bootstub" : "app"} but its contents are a ${role}`)
+      }
+
+      const digest = await sha256Hex(buf)
+      if (role === "bootstub") {
         setBootstubBin(buf)
-        log(`[v0] Loaded ${f.name} (${buf.byteLength} bytes)`)
+        setUploadDigests((prev) => ({ ...prev, bootstub: digest }))
+        log(`[v0] Loaded ${f.name} as bootstub @ ${hex(BOOTSTUB_ADDRESS)} (${buf.byteLength} bytes), SHA-256 ${digest}`)
       } else {
         setPandaBin(buf)
-        log(`[v0] Loaded ${f.name} (${buf.byteLength} bytes)`)
+        setUploadDigests((prev) => ({ ...prev, panda: digest }))
+        log(`[v0] Loaded ${f.name} as app @ ${hex(APP_ADDRESS)} (${buf.byteLength} bytes), SHA-256 ${digest}`)
       }
     }
   }
 
-  const progressPct = useMemo(() => {
-    if (!progress.total) return 0
-    return Math.min(100, Math.floor((progress.done / progress.total) * 100))
-  }, [progress])
+  // Re-check the uploaded app's signature whenever either half of the pair changes
+  useEffect(() => {
+    if (!pandaBin) {
+      setSignatureCheck(null)
+      return
+    }
+    let cancelled = false
+    checkAppSignature(pandaBin, bootstubBin ?? undefined).then((check) => {
+      if (!cancelled) setSignatureCheck(check)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [pandaBin, bootstubBin])
+
+  const onPickSigningKey = async (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const file = ev.currentTarget.files?.[0]
+    ev.currentTarget.value = ""
+    if (!file || !pandaBin) return
+
+    try {
+      const key = parseRsaPrivateKey(await file.text())
+      const signed = await signApp(pandaBin, key)
+      const digest = await sha256Hex(signed)
+      setPandaBin(signed)
+      setUploadDigests((prev) => ({ ...prev, panda: digest }))
+      log(`[v0] 🔏 Signed panda.bin with ${file.name} (${signed.byteLength} bytes), SHA-256 ${digest}`)
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e)
+      log(`[v0] ❌ Signing failed: ${errorMsg}`)
+      setStatusMessage(`Signing failed: ${errorMsg}`)
+    }
+  }
+
+  /** Save the selected firmware as one .dfu file for dfu-util or STM32CubeProgrammer */
+  const exportDfu = useCallback(async () => {
+    try {
+      const images = await loadFirmware()
+      const dfu = buildDfuseFile(images)
+      const fileName = `${selectedVariant?.id ?? "panda-custom"}.dfu`
+      const url = URL.createObjectURL(new Blob([dfu], { type: "application/octet-stream" }))
+      const a = document.createElement("a")
+      a.href = url
+      a.download = fileName
+      a.click()
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+      log(`[v0] 📦 Exported ${images.map((img) => img.name).join(" + ")} as ${fileName} (${dfu.byteLength} bytes)`)
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e)
+      log(`[v0] ❌ Export failed: ${errorMsg}`)
+      setStatusMessage(`Export failed: ${errorMsg}`)
+    }
+  }, [loadFirmware, selectedVariant, log])
 
   const logRef = useRef<HTMLDivElement>(null)
 
@@ -915,50 +1293,53 @@ export default function Page() {
             <label className="block text-base font-semibold">Choose firmware type:</label>
             <select
               value={firmwareType}
-              onChange={(e) => setFirmwareType(e.target.value as "sunny-basic" | "sunny-advanced" | "upload")}
+              onChange={(e) => setFirmwareType(e.target.value)}
               className="w-full p-3 text-lg border border-input rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
             >
-              <option value="sunny-basic">SunnyPilot Basic (Recommended)</option>
-              <option value="sunny-advanced">SunnyPilot Advanced</option>
+              {firmwareCatalog.variants.map((v) => (
+                <option key={v.id} value={v.id}>
+                  {v.name}
+                  {v.recommended ? " (Recommended)" : ""}
+                </option>
+              ))}
               <option value="upload">Upload Custom Files</option>
+              <option value="restore">Restore from Backup</option>
             </select>
           </div>
 
-          {firmwareType === "sunny-basic" && (
+          {selectedVariant && (
             <div className="space-y-3 p-4 bg-blue-50 rounded-lg border border-blue-200">
               <p className="text-sm text-blue-700">
-                This will automatically download and flash the SunnyPilot Basic firmware from the repository.
+                This will automatically download and flash the {selectedVariant.name} firmware from the repository.
               </p>
+              <p className="text-sm text-blue-700">{selectedVariant.description}</p>
               <p className="text-xs text-blue-600">
                 Source:{" "}
                 <a
-                  href="https://github.com/sunnypilot/panda/tree/sunnypilot_wp_chrysler_basic"
+                  href={sourceUrl(selectedVariant)}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="underline hover:text-blue-800"
                 >
-                  sunnypilot/panda (sunnypilot_wp_chrysler_basic)
+                  {selectedVariant.repo} ({selectedVariant.branch})
                 </a>
               </p>
-            </div>
-          )}
-
-          {firmwareType === "sunny-advanced" && (
-            <div className="space-y-3 p-4 bg-purple-50 rounded-lg border border-purple-200">
-              <p className="text-sm text-purple-700">
-                This will automatically download and flash the SunnyPilot Advanced firmware from the repository.
-              </p>
-              <p className="text-xs text-purple-600">
-                Source:{" "}
-                <a
-                  href="https://github.com/sunnypilot/panda/tree/sunnypilot_wp_chrysler_advanced"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="underline hover:text-purple-800"
-                >
-                  sunnypilot/panda (sunnypilot_wp_chrysler_advanced)
-                </a>
+              <p className="text-xs text-blue-600">
+                Hardware: {selectedVariant.hardware.join(", ")} panda · Released {selectedVariant.releaseDate}
               </p>
+              {identity && identity.hwType !== "unknown" && !supportsHardware(selectedVariant, identity.hwType) && (
+                <p className="text-sm text-red-700 font-medium">
+                  Not built for your {identity.hwType} panda - flashing will be refused.
+                </p>
+              )}
+              <ul className="text-xs text-blue-600 font-mono">
+                {selectedVariant.files.map((f) => (
+                  <li key={f.name}>
+                    {f.name} → {hex(f.address)} ({f.size} bytes)
+                    <div className="break-all opacity-75">SHA-256 {f.sha256}</div>
+                  </li>
+                ))}
+              </ul>
             </div>
           )}
 
@@ -987,9 +1368,17 @@ export default function Page() {
                     <p className="mb-2 text-sm text-muted-foreground">
                       <span className="font-semibold">Click to upload</span> or drag and drop
                     </p>
-                    <p className="text-xs text-muted-foreground">panda.bin and bootstub.panda.bin files</p>
+                    <p className="text-xs text-muted-foreground">
+                      panda.bin and bootstub.panda.bin files, or one .dfu, .hex or .elf file
+                    </p>
                   </div>
-                  <input type="file" multiple onChange={onPickFiles} className="hidden" accept=".bin" />
+                  <input
+                    type="file"
+                    multiple
+                    onChange={onPickFiles}
+                    className="hidden"
+                    accept=".bin,.dfu,.hex,.ihex,.elf,.axf"
+                  />
                 </label>
               </div>
               {pandaBin && bootstubBin && (
@@ -1004,135 +1393,470 @@ export default function Page() {
                   Both binary files loaded successfully
                 </div>
               )}
+              {pandaBin && !bootstubBin && !container && (
+                <p className="text-sm text-green-600">
+                  panda.bin loaded - an app-only update that keeps the bootstub already on the panda. Add
+                  bootstub.panda.bin to update both.
+                </p>
+              )}
+              {container && (
+                <div className="text-sm">
+                  <p className="text-green-600">{container.source} loaded</p>
+                  <ul className="text-xs text-muted-foreground font-mono">
+                    {container.images.map((img) => (
+                      <li key={img.address}>
+                        {hex(img.address)}..{hex(img.address + img.data.byteLength)} ({img.data.byteLength} bytes)
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {(uploadDigests.panda || uploadDigests.bootstub) && (
+                <ul className="text-xs text-muted-foreground font-mono break-all">
+                  {uploadDigests.panda && <li>panda.bin SHA-256: {uploadDigests.panda}</li>}
+                  {uploadDigests.bootstub && <li>bootstub.panda.bin SHA-256: {uploadDigests.bootstub}</li>}
+                </ul>
+              )}
+              {signatureCheck && (
+                <div className="space-y-1 text-sm">
+                  <p className="text-muted-foreground">
+                    Signature:{" "}
+                    {!signatureCheck.signed
+                      ? "unsigned"
+                      : signatureCheck.signer
+                        ? `signed with the ${signatureCheck.signer.name}`
+                        : "signed with an unknown key"}
+                    {signatureCheck.acceptedByBootstub && " - accepted by the uploaded bootstub"}
+                  </p>
+                  {signatureCheck.warnings.map((w) => (
+                    <p key={w} className="text-amber-700">
+                      ⚠️ {w}
+                    </p>
+                  ))}
+                  <label className="block text-xs text-muted-foreground">
+                    Sign panda.bin with a dev key (PEM, RSA-1024):{" "}
+                    <input type="file" onChange={onPickSigningKey} className="text-xs" />
+                  </label>
+                </div>
+              )}
+            </div>
+          )}
+
+          {firmwareType === "restore" && (
+            <div className="space-y-3 p-4 bg-amber-50 rounded-lg border border-amber-200">
+              <p className="text-sm text-amber-700">
+                Writes a full flash backup back to {hex(layoutStart(memoryLayout))}, verifies it and reboots the device.
+              </p>
+              {backup ? (
+                <p className="text-xs text-amber-700">
+                  Using backup: <span className="font-mono">{backup.fileName}</span> ({backup.data.byteLength} bytes)
+                </p>
+              ) : (
+                <p className="text-xs text-amber-700">No backup taken this session - load one from disk.</p>
+              )}
+              <input type="file" onChange={onPickBackup} accept=".bin" className="text-sm" />
             </div>
           )}
+
+          {firmwareType !== "restore" && (
+            <Button variant="outline" size="sm" onClick={exportDfu} disabled={!isFirmwareReady()}>
+              <Download className="w-4 h-4 mr-2" />
+              Export as .dfu
+            </Button>
+          )}
         </CardContent>
       </Card>
 
-      <div className="grid md:grid-cols-3 gap-4">
-        <Card className={connectionStep === "idle" ? "ring-2 ring-primary" : ""}>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <span className="w-6 h-6 rounded-full bg-primary text-primary-foreground text-sm flex items-center justify-center">
-                1
-              </span>
-              Connect Device
-            </CardTitle>
-            <CardDescription>Connect to panda device in normal mode</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Button onClick={connectNormalDevice} disabled={connectionStep !== "idle"} className="w-full">
-              {connectionStep === "idle" ? "Connect Panda" : "✓ Connected"}
-            </Button>
-          </CardContent>
-        </Card>
+      <Card>
+        <CardHeader>
+          <CardTitle>Step 2: Flash Your Panda</CardTitle>
+          <CardDescription>
+            Connects, reboots the panda into DFU mode, flashes, verifies and checks the new version in one go. You only
+            need to click again when the browser asks which device to use.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {firmwareType !== "restore" && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={backupBeforeFlash}
+                onChange={(e) => setBackupBeforeFlash(e.target.checked)}
+              />
+              Back up the full device flash before flashing
+            </label>
+          )}
 
-        <Card className={connectionStep === "normal" ? "ring-2 ring-primary" : ""}>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <span className="w-6 h-6 rounded-full bg-primary text-primary-foreground text-sm flex items-center justify-center">
-                2
-              </span>
-              Enter DFU Mode
-            </CardTitle>
-            <CardDescription>Put device into firmware update mode</CardDescription>
-          </CardHeader>
-          <CardContent>
+          {firmwareType !== "restore" && (
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={smartFlash} onChange={(e) => setSmartFlash(e.target.checked)} />
+              Smart flash: only erase and rewrite sectors that changed
+            </label>
+          )}
+
+          <div className="flex gap-2">
             <Button
-              onClick={enterDfuMode}
-              disabled={connectionStep !== "normal" || dfuButtonDisabled}
-              className="w-full"
+              onClick={() => runGuided(resumeStep?.id)}
+              disabled={!isFirmwareReady() || flowRunning || !!job}
+              className="flex-1 text-lg"
             >
-              {connectionStep === "normal"
-                ? dfuButtonDisabled
-                  ? "Entering DFU Mode..."
-                  : "Enter DFU Mode"
-                : connectionStep === "dfu-mode"
-                  ? "✓ In DFU Mode"
-                  : "Waiting for connection"}
+              {flowRunning
+                ? "Working..."
+                : resumeStep?.status === "waiting"
+                  ? "Continue"
+                  : resumeStep
+                    ? `Retry: ${resumeStep.label}`
+                    : firmwareType === "restore"
+                      ? "Restore My Panda"
+                      : "Flash My Panda"}
             </Button>
-          </CardContent>
-        </Card>
+            {resumeStep && !flowRunning && (
+              <Button onClick={() => runGuided()} variant="outline">
+                Start Over
+              </Button>
+            )}
+            {job && (
+              <Button onClick={() => job.abort(new DfuCancelledError())} variant="destructive">
+                Cancel
+              </Button>
+            )}
+            {rollbackImage && !job && (
+              <Button onClick={() => restoreImage(rollbackImage)} variant="destructive">
+                Roll Back to Backup
+              </Button>
+            )}
+          </div>
 
-        <Card className={connectionStep === "dfu-mode" ? "ring-2 ring-primary" : ""}>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <span className="w-6 h-6 rounded-full bg-primary text-primary-foreground text-sm flex items-center justify-center">
-                3
-              </span>
-              Connect DFU
-            </CardTitle>
-            <CardDescription>Connect to device in DFU mode</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Button onClick={connectDfuDevice} disabled={connectionStep !== "dfu-mode"} className="w-full">
-              {connectionStep === "dfu-connected" ? "✓ DFU Connected" : "Connect DFU Device"}
-            </Button>
-          </CardContent>
-        </Card>
-      </div>
+          {flowSteps.length > 0 && (
+            <ol className="space-y-1 text-sm">
+              {flowSteps.map((step) => (
+                <li key={step.id} className={step.status === "pending" ? "text-muted-foreground" : ""}>
+                  <span className="inline-block w-6">{STEP_ICONS[step.status]}</span>
+                  {step.label}
+                  {step.detail && <span className="text-muted-foreground"> — {step.detail}</span>}
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {(job || progress) && (
+            <div className="space-y-2">
+              <Progress value={progress?.percent ?? 0} className="w-full" />
+              <div className="text-sm text-muted-foreground">
+                {progress ? `${progress.percent}% — ${formatProgress(progress)}` : "Progress: 0%"}
+              </div>
+            </div>
+          )}
+
+          {imageDigests.length > 0 && (
+            <ul className="text-xs text-muted-foreground font-mono break-all">
+              {imageDigests.map((d) => (
+                <li key={d.name}>
+                  {d.known ? "✓" : "•"} {d.name} SHA-256: {d.sha256}
+                  {d.known ? " (matches catalog)" : ""}
+                </li>
+              ))}
+            </ul>
+          )}
 
-      {/* Status and Progress */}
+          {backup && (
+            <a
+              href={backup.url}
+              download={backup.fileName}
+              className="inline-flex items-center gap-2 text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Download className="h-4 w-4" />
+              Download backup ({backup.fileName})
+            </a>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Status */}
       {statusMessage && (
         <Alert className="bg-blue-50 border-blue-200 text-blue-800 text-lg font-medium py-4">
           <AlertDescription className="text-center">{statusMessage}</AlertDescription>
         </Alert>
       )}
 
-      {connectionStep === "dfu-connected" && (
+      <details className="space-y-4">
+        <summary className="cursor-pointer text-sm text-muted-foreground">
+          Manual steps (advanced): connect, enter DFU mode and flash one step at a time
+        </summary>
+        <div className="grid md:grid-cols-3 gap-4">
+          <Card className={connectionStep === "idle" ? "ring-2 ring-primary" : ""}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <span className="w-6 h-6 rounded-full bg-primary text-primary-foreground text-sm flex items-center justify-center">
+                  1
+                </span>
+                Connect Device
+              </CardTitle>
+              <CardDescription>Connect to panda device in normal mode</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button onClick={connectNormalDevice} disabled={connectionStep !== "idle"} className="w-full">
+                {connectionStep === "idle" ? "Connect Panda" : "✓ Connected"}
+              </Button>
+              {identity && (
+                <dl className="mt-3 grid grid-cols-[auto_1fr] gap-x-2 text-xs text-muted-foreground">
+                  <dt>Hardware</dt>
+                  <dd className="capitalize">{identity.hwType}</dd>
+                  {identity.mode === "bootstub" ? (
+                    <>
+                      <dt>Bootstub</dt>
+                      <dd className="font-mono break-all">{identity.bootstubVersion || "unknown"}</dd>
+                    </>
+                  ) : (
+                    <>
+                      <dt>Firmware</dt>
+                      <dd className="font-mono break-all">{identity.version || "unknown"}</dd>
+                    </>
+                  )}
+                  <dt>Serial</dt>
+                  <dd className="font-mono break-all">{identity.serial ?? "not provisioned"}</dd>
+                </dl>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className={connectionStep === "normal" ? "ring-2 ring-primary" : ""}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <span className="w-6 h-6 rounded-full bg-primary text-primary-foreground text-sm flex items-center justify-center">
+                  2
+                </span>
+                Enter DFU Mode
+              </CardTitle>
+              <CardDescription>Put device into firmware update mode</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button
+                onClick={enterDfuMode}
+                disabled={connectionStep !== "normal" || dfuButtonDisabled}
+                className="w-full"
+              >
+                {connectionStep === "normal"
+                  ? dfuButtonDisabled
+                    ? "Entering DFU Mode..."
+                    : "Enter DFU Mode"
+                  : connectionStep === "dfu-mode"
+                    ? "✓ In DFU Mode"
+                    : "Waiting for connection"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card className={connectionStep === "dfu-mode" ? "ring-2 ring-primary" : ""}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <span className="w-6 h-6 rounded-full bg-primary text-primary-foreground text-sm flex items-center justify-center">
+                  3
+                </span>
+                Connect DFU
+              </CardTitle>
+              <CardDescription>Connect to device in DFU mode</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button
+                onClick={connectDfuDevice}
+                disabled={connectionStep === "dfu-connected" || (connectionStep === "normal" && !simulate)}
+                className="w-full"
+              >
+                {connectionStep === "dfu-connected"
+                  ? "✓ DFU Connected"
+                  : simulate
+                    ? "Connect Simulated Device"
+                    : "Connect DFU Device"}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+
+        {connectionStep === "dfu-connected" && (
+          <Card className="mt-4">
+            <CardHeader>
+              <CardTitle>Flash Firmware</CardTitle>
+              <CardDescription>
+                Ready to flash{" "}
+                {selectedVariant ? selectedVariant.name : firmwareType === "restore" ? "backup" : "uploaded"} firmware
+                using the options above
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex gap-2">
+              <Button
+                onClick={() => (firmwareType === "restore" ? restoreBackup() : flash())}
+                disabled={!isFirmwareReady() || !!job || flowRunning}
+                className="flex-1"
+              >
+                {firmwareType === "restore" ? "Restore Backup" : "Flash Firmware"}
+              </Button>
+              <Button onClick={disconnect} variant="outline" disabled={!!job || flowRunning}>
+                Disconnect
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </details>
+
+      <details className="space-y-4">
+        <summary className="cursor-pointer text-sm text-muted-foreground">
+          Recovery mode: the panda no longer shows up, or keeps rebooting
+        </summary>
         <Card>
           <CardHeader>
-            <CardTitle>Flash Firmware</CardTitle>
+            <CardTitle>Recover a Bricked Panda</CardTitle>
             <CardDescription>
-              Ready to flash{" "}
-              {firmwareType === "sunny-basic"
-                ? "SunnyPilot Basic"
-                : firmwareType === "sunny-advanced"
-                  ? "SunnyPilot Advanced"
-                  : "uploaded"}{" "}
-              firmware
+              Start the ST bootloader by hand and flash a known-good bootstub and app (
+              {(selectedVariant ?? defaultVariant).name})
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="space-y-2">
-              <Progress value={progressPct} className="w-full" />
-              <div className="text-sm text-muted-foreground">
-                Progress: {progress.done}/{progress.total} bytes ({progressPct}%)
-              </div>
-            </div>
+            <ol className="list-decimal list-inside space-y-1 text-sm">
+              {BOOT0_STEPS.map((step) => (
+                <li key={step}>{step}</li>
+              ))}
+            </ol>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={massErase} onChange={(e) => setMassErase(e.target.checked)} />
+              Mass-erase the whole flash first (removes everything, including any leftovers of the broken firmware)
+            </label>
 
             <div className="flex gap-2">
-              <Button onClick={flash} disabled={!isFirmwareReady()} className="flex-1">
-                Flash Firmware
+              <Button
+                onClick={connectDfuDevice}
+                disabled={connectionStep === "dfu-connected" || !!job}
+                variant="outline"
+              >
+                {connectionStep === "dfu-connected"
+                  ? "✓ Bootloader Connected"
+                  : simulate
+                    ? "Connect Simulated Bootloader"
+                    : "Connect to Bootloader"}
               </Button>
-              <Button onClick={disconnect} variant="outline">
-                Disconnect
+              <Button onClick={recover} disabled={!dfuDevice || !!job || flowRunning} className="flex-1">
+                Recover Panda
               </Button>
             </div>
+
+            {job && progress && (
+              <div className="text-sm text-muted-foreground">
+                {progress.percent}% — {formatProgress(progress)}
+              </div>
+            )}
+
+            {readProtected && (
+              <Alert className="bg-amber-50 border-amber-200 text-amber-800">
+                <AlertDescription>
+                  Readout protection (RDP) is on: the ST bootloader will not read, erase or write the flash, so nothing
+                  was changed. Removing it erases the whole flash - use &quot;Remove Read Protection&quot; below, then
+                  run recovery again.
+                </AlertDescription>
+              </Alert>
+            )}
           </CardContent>
         </Card>
-      )}
 
-      {firmwareType !== "upload" && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Option Bytes</CardTitle>
+            <CardDescription>
+              Read protection, write-protected sectors, brown-out level and user bits, read from the bootloader&apos;s
+              option bytes alternate
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {dfuAlternates.length > 0 && (
+              <ul className="text-xs text-muted-foreground font-mono">
+                {dfuAlternates.map((alt) => (
+                  <li key={alt.alternate.alternateSetting}>
+                    alt {alt.alternate.alternateSetting}: {alt.name ?? "(unnamed)"}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <Button
+              onClick={inspectOptionBytes}
+              disabled={!dfuDevice || !!job || flowRunning || !findOptionBytesAlternate(dfuAlternates)}
+              variant="outline"
+            >
+              Read Option Bytes
+            </Button>
+
+            {optionBytes && (
+              <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+                <dt className="text-muted-foreground">Read protection</dt>
+                <dd>{RDP_DESCRIPTION[optionBytes.rdp]}</dd>
+                <dt className="text-muted-foreground">Write protection</dt>
+                <dd>
+                  {optionBytes.writeProtected.length
+                    ? `Sectors ${optionBytes.writeProtected.join(", ")}`
+                    : "No sector is write-protected"}
+                </dd>
+                <dt className="text-muted-foreground">Brown-out reset</dt>
+                <dd>{optionBytes.bor ? `Level ${optionBytes.bor.level} (${optionBytes.bor.threshold})` : "Off"}</dd>
+                <dt className="text-muted-foreground">User bits</dt>
+                <dd>
+                  {optionBytes.watchdog} watchdog, {optionBytes.resetOnStop ? "reset" : "no reset"} on Stop,{" "}
+                  {optionBytes.resetOnStandby ? "reset" : "no reset"} on Standby
+                </dd>
+                <dt className="text-muted-foreground">Raw</dt>
+                <dd className="font-mono text-xs break-all">
+                  {Array.from(optionBytes.raw, (b) => b.toString(16).padStart(2, "0")).join(" ")}
+                  {optionBytes.corrupt && " (complements do not match - may be corrupt)"}
+                </dd>
+              </dl>
+            )}
+
+            {optionBytes?.rdp === 1 && (
+              <div className="space-y-3 p-4 bg-red-50 rounded-lg border border-red-200">
+                <p className="text-sm text-red-800">
+                  Removing read protection makes the bootloader mass-erase the entire flash: the bootstub, the app and
+                  any stored data are gone, and the panda will not boot until it is recovered.
+                </p>
+                <label className="flex items-center gap-2 text-sm text-red-800">
+                  <input
+                    type="checkbox"
+                    checked={unprotectConfirmed}
+                    onChange={(e) => setUnprotectConfirmed(e.target.checked)}
+                  />
+                  I understand that everything in flash will be erased
+                </label>
+                <Button
+                  onClick={removeReadProtection}
+                  disabled={!unprotectConfirmed || !!job || flowRunning}
+                  variant="destructive"
+                >
+                  Remove Read Protection
+                </Button>
+              </div>
+            )}
+            {optionBytes?.rdp === 2 && (
+              <p className="text-sm text-red-800">
+                RDP level 2 cannot be undone: this MCU can no longer be reflashed over USB or a debugger.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </details>
+
+      {selectedVariant && (
         <div className="mt-4 p-4 bg-muted rounded-lg">
           <p className="text-sm text-muted-foreground mb-2">Backup download links (if needed):</p>
           <div className="flex flex-col gap-2">
-            <a
-              href={`https://raw.githubusercontent.com/aidin9/pandaFlash/main/prebuilt-binaries/sunny-${firmwareType}/panda.bin`}
-              download="panda.bin"
-              className="inline-flex items-center gap-2 text-sm text-blue-600 hover:text-blue-800"
-            >
-              <Download className="h-4 w-4" />
-              Download panda.bin
-            </a>
-            <a
-              href={`https://raw.githubusercontent.com/aidin9/pandaFlash/main/prebuilt-binaries/sunny-${firmwareType}/bootstub.panda.bin`}
-              download="bootstub.panda.bin"
-              className="inline-flex items-center gap-2 text-sm text-blue-600 hover:text-blue-800"
-            >
-              <Download className="h-4 w-4" />
-              Download bootstub.panda.bin
-            </a>
+            {selectedVariant.files.map((f) => (
+              <a
+                key={f.name}
+                href={catalogFileUrl(f)}
+                download={f.name}
+                className="inline-flex items-center gap-2 text-sm text-blue-600 hover:text-blue-800"
+              >
+                <Download className="h-4 w-4" />
+                Download {f.name}
+              </a>
+            ))}
           </div>
         </div>
       )}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest"
+import {
+  appSectors,
+  BootstubClient,
+  BootstubFlasherError,
+  chooseBackend,
+  flashViaBootstub,
+  type BootstubTransport,
+} from "@/lib/bootstub-flash"
+import { DfuCancelledError } from "@/lib/dfu-errors"
+import { DEFAULT_LAYOUT } from "@/lib/dfuse-layout"
+import type { FlashProgress } from "@/lib/flash-progress"
+import { BOOTSTUB_PID, PANDA_VID } from "@/lib/panda"
+import { APP_ADDRESS, BOOTSTUB_ADDRESS } from "@/lib/stm32-image"
+
+/** A bootstub that records what it was asked to do; `flasher: false` stalls 0xb0 like firmware without one */
+const fakeBootstub = ({ flasher = true } = {}) => {
+  const requests: { request: number; value: number }[] = []
+  const written: number[] = []
+  let opened = false
+  let claimed = false
+  const device: BootstubTransport = {
+    vendorId: PANDA_VID,
+    productId: BOOTSTUB_PID,
+    configuration: null,
+    get opened() {
+      return opened
+    },
+    async open() {
+      opened = true
+    },
+    async close() {
+      opened = false
+    },
+    async selectConfiguration() {},
+    async claimInterface() {
+      claimed = true
+    },
+    async controlTransferIn(setup, length) {
+      if (setup.request !== 0xb0 || !flasher) return { status: "stall" } as USBInTransferResult
+      const reply = new Uint8Array(length)
+      reply.set([0xde, 0xad, 0xd0, 0x0d], 4)
+      return { status: "ok", data: new DataView(reply.buffer) } as USBInTransferResult
+    },
+    async controlTransferOut(setup) {
+      requests.push({ request: setup.request, value: setup.value })
+      return { status: "ok", bytesWritten: 0 } as USBOutTransferResult
+    },
+    async transferOut(endpoint, data) {
+      if (!claimed || endpoint !== 2) throw new DOMException("The interface is not claimed.", "InvalidStateError")
+      const chunk = data as Uint8Array
+      written.push(...chunk)
+      return { status: "ok", bytesWritten: data.byteLength } as USBOutTransferResult
+    },
+  }
+  return { device, requests, written }
+}
+
+const appOf = (size: number) => Uint8Array.from({ length: size }, (_, i) => (i * 7) & 0xff).buffer
+
+describe("flashViaBootstub", () => {
+  it("unlocks, erases the app's sectors, streams the app over bulk and resets", async () => {
+    const { device, requests, written } = fakeBootstub()
+    const app = appOf(0x5000)
+    const seen: FlashProgress[] = []
+
+    await flashViaBootstub(new BootstubClient(device), app, DEFAULT_LAYOUT, {
+      log: () => {},
+      onProgress: (p) => seen.push(p),
+    })
+
+    expect(requests).toEqual([
+      { request: 0xb1, value: 0 },
+      { request: 0xb2, value: 1 },
+      { request: 0xb2, value: 2 },
+      { request: 0xd8, value: 0 },
+    ])
+    expect(Uint8Array.from(written)).toEqual(new Uint8Array(app))
+    expect(seen.at(-1)).toMatchObject({ percent: 100, phase: "Rebooting" })
+  })
+
+  it("leaves the flash alone when the bootstub has no flasher", async () => {
+    const { device, requests } = fakeBootstub({ flasher: false })
+    await expect(
+      flashViaBootstub(new BootstubClient(device), appOf(0x100), DEFAULT_LAYOUT, { log: () => {} }),
+    ).rejects.toBeInstanceOf(BootstubFlasherError)
+    expect(requests).toEqual([])
+  })
+
+  it("stops between transfers when cancelled", async () => {
+    const { device, requests, written } = fakeBootstub()
+    const controller = new AbortController()
+    const flashing = flashViaBootstub(new BootstubClient(device), appOf(0x2000), DEFAULT_LAYOUT, {
+      log: () => {},
+      signal: controller.signal,
+      onProgress: (p) => p.phase === "Writing panda.bin" && p.percent > 30 && controller.abort(new DfuCancelledError()),
+    })
+
+    await expect(flashing).rejects.toBeInstanceOf(DfuCancelledError)
+    expect(written.length).toBeLessThan(0x2000)
+    expect(requests.map((r) => r.request)).not.toContain(0xd8)
+  })
+})
+
+describe("choosing a backend", () => {
+  it("keeps the app inside sectors 1..6", () => {
+    expect(appSectors(DEFAULT_LAYOUT, 0x4000)).toEqual([1])
+    expect(appSectors(DEFAULT_LAYOUT, 0x4001)).toEqual([1, 2])
+    expect(() => appSectors(DEFAULT_LAYOUT, 0x60000)).toThrow("does not fit")
+  })
+
+  it("uses the bootstub for an app-only update of a running panda and DFUSe for everything else", () => {
+    const app = { address: APP_ADDRESS }
+    const bootstub = { address: BOOTSTUB_ADDRESS }
+    const identity = { mode: "app" as const, hwType: "white" as const }
+
+    expect(chooseBackend(identity, [app])).toEqual({ kind: "bootstub" })
+    expect(chooseBackend({ ...identity, mode: "bootstub" }, [app])).toEqual({ kind: "bootstub" })
+    expect(chooseBackend(identity, [app, bootstub])).toMatchObject({ kind: "dfuse" })
+    expect(chooseBackend(null, [app])).toMatchObject({ kind: "dfuse" })
+  })
+
+  it("falls back to DFUSe once the bootstub turns out to have no flasher", async () => {
+    const identity = { mode: "bootstub" as const, hwType: "white" as const }
+    const { device } = fakeBootstub({ flasher: false })
+    const client = new BootstubClient(device)
+    await client.open()
+
+    const flasher = await client.flasherPresent()
+    expect(flasher).toBe(false)
+    expect(chooseBackend(identity, [{ address: APP_ADDRESS }], flasher)).toEqual({
+      kind: "dfuse",
+      reason: "the panda's bootstub has no flasher",
+    })
+    expect(chooseBackend(identity, [{ address: APP_ADDRESS }], true)).toEqual({ kind: "bootstub" })
+  })
+})
@@ -0,0 +1,200 @@
+/** ---------- Flashing the app through the panda bootstub ---------- */
+// The bootstub has its own flasher, so an app update needs neither the ST bootloader nor DFUSe:
+//   0xb0 flasher check (bytes 4..8 of the reply are de ad d0 0d), 0xb1 unlock flash,
+//   0xb2 erase sector `value`, app bytes in order over bulk endpoint 2, 0xd8 reset.
+// It cannot read flash back, so the version the panda reports after the reset is the verification.
+import { DfuTransportError, toTransportError } from "@/lib/dfu-errors"
+import type { MemoryLayout } from "@/lib/dfuse-layout"
+import type { FirmwareImage } from "@/lib/firmware-catalog"
+import type { FlashOptions } from "@/lib/flash"
+import { ProgressTracker } from "@/lib/flash-progress"
+import {
+  BOOTSTUB_PID,
+  PANDA_VID,
+  PandaClient,
+  type PandaIdentity,
+  type PandaTransport,
+  type PandaUsb,
+} from "@/lib/panda"
+import { APP_ADDRESS } from "@/lib/stm32-image"
+import { hex } from "@/lib/utils"
+
+const REQ = { FLASHER_CHECK: 0xb0, UNLOCK: 0xb1, ERASE_SECTOR: 0xb2 } as const
+const FLASHER_MAGIC = [0xde, 0xad, 0xd0, 0x0d]
+const BULK_ENDPOINT = 2
+/** panda's own flasher sends the app 16 bytes per bulk transfer; the bootstub programs each as it arrives */
+const CHUNK = 0x10
+/** Sector 0 is the bootstub; panda's flasher refuses to erase sector 7 or above */
+const LAST_APP_SECTOR = 6
+
+/** The bootstub has no flasher (it did not answer 0xb0); nothing was erased or written */
+export class BootstubFlasherError extends Error {
+  constructor() {
+    super("The bootstub did not answer the flasher check - flash through DFU mode instead")
+    this.name = new.target.name
+  }
+}
+
+export type BootstubTransport = PandaTransport &
+  Pick<USBDevice, "configuration" | "selectConfiguration" | "claimInterface" | "transferOut">
+
+export const isBootstub = (device: Pick<USBDevice, "vendorId" | "productId">) =>
+  device.vendorId === PANDA_VID && device.productId === BOOTSTUB_PID
+
+export class BootstubClient extends PandaClient {
+  private usb: BootstubTransport
+
+  constructor(device: BootstubTransport) {
+    super(device)
+    this.usb = device
+  }
+
+  /** Bulk writes need the interface claimed, unlike the control requests */
+  async open() {
+    await super.open()
+    if (!this.usb.configuration) await this.usb.selectConfiguration(1)
+    await this.usb.claimInterface(0).catch((e) => Promise.reject(toTransportError(e)))
+  }
+
+  /** Whether this bootstub has the flasher: it answers 0xb0 with its magic */
+  async flasherPresent() {
+    try {
+      const data = await this.requestIn(REQ.FLASHER_CHECK, 0xc)
+      return FLASHER_MAGIC.every((b, i) => data.byteLength > 4 + i && data.getUint8(4 + i) === b)
+    } catch (e) {
+      if (e instanceof DfuTransportError && !e.disconnected) return false
+      throw e
+    }
+  }
+
+  async unlock() {
+    await this.requestOut(REQ.UNLOCK)
+  }
+
+  async eraseSector(index: number) {
+    await this.requestOut(REQ.ERASE_SECTOR, index)
+  }
+
+  async write(chunk: Uint8Array) {
+    const r = await this.usb.transferOut(BULK_ENDPOINT, chunk).catch((e) => Promise.reject(toTransportError(e)))
+    if (r.status !== "ok" || r.bytesWritten !== chunk.byteLength) {
+      throw new DfuTransportError(`bulk write failed: ${r.status}, ${r.bytesWritten} of ${chunk.byteLength} bytes`, false)
+    }
+  }
+}
+
+/** The sectors an app of `size` bytes occupies, by index, starting right after the bootstub */
+export const appSectors = (layout: MemoryLayout, size: number) => {
+  const first = layout.sectors.findIndex((s) => s.start === APP_ADDRESS)
+  if (first < 1) throw new Error(`The memory layout has no sector at the app address ${hex(APP_ADDRESS)}`)
+  const sectors: number[] = []
+  for (let i = first, covered = 0; covered < size; i++) {
+    if (i > LAST_APP_SECTOR || !layout.sectors[i]) {
+      throw new Error(`An app of ${size} bytes does not fit in sectors ${first}..${LAST_APP_SECTOR}`)
+    }
+    sectors.push(i)
+    covered += layout.sectors[i].end - layout.sectors[i].start
+  }
+  return sectors
+}
+
+export type FlashBackend =
+  /** Update the app through the panda's bootstub */
+  | { kind: "bootstub" }
+  /** Go through the ST bootloader; `reason` says why the bootstub will not do */
+  | { kind: "dfuse"; reason: string }
+
+/**
+ * Pick how to flash `images` onto the device `identity` describes (null: not a running panda).
+ * `flasher` is whether its bootstub answered the flasher check; unknown until it runs in bootstub mode.
+ */
+export const chooseBackend = (
+  identity: PandaIdentity | null,
+  images: Pick<FirmwareImage, "address">[],
+  flasher?: boolean,
+): FlashBackend => {
+  if (!identity) return { kind: "dfuse", reason: "the device is not a running panda" }
+  if (images.length !== 1 || images[0].address !== APP_ADDRESS) {
+    return { kind: "dfuse", reason: "the firmware includes a bootstub, which only the ST bootloader can update" }
+  }
+  if (flasher === false) return { kind: "dfuse", reason: "the panda's bootstub has no flasher" }
+  return { kind: "bootstub" }
+}
+
+/**
+ * Resolve with the panda's bootstub once it is visible to this page, or null after `timeoutMs`.
+ * The bootstub has its own product id, so it needs its own permission the first time.
+ */
+export const waitForBootstub = (usb: PandaUsb, timeoutMs: number): Promise<USBDevice | null> =>
+  new Promise((resolve) => {
+    const done = (device: USBDevice | null) => {
+      clearTimeout(timer)
+      usb.removeEventListener("connect", onConnect)
+      resolve(device)
+    }
+    const onConnect = (e: Event) => {
+      const device = (e as USBConnectionEvent).device
+      if (isBootstub(device)) done(device)
+    }
+    const timer = setTimeout(() => done(null), timeoutMs)
+    usb.addEventListener("connect", onConnect)
+    usb.getDevices().then((devices) => {
+      const bootstub = devices.find(isBootstub)
+      if (bootstub) done(bootstub)
+    }, () => {})
+  })
+
+/**
+ * Erase the app's sectors and write `app` through the bootstub, then reset into it. Cancelling
+ * stops between transfers; the bootstub then stays in charge, since a partial app fails its check.
+ */
+export const flashViaBootstub = async (
+  client: BootstubClient,
+  app: ArrayBuffer,
+  layout: MemoryLayout,
+  opts: Pick<FlashOptions, "log" | "onStatus" | "onProgress" | "signal">,
+) => {
+  const { log, onStatus = () => {}, signal } = opts
+  const sectors = appSectors(layout, app.byteLength)
+  const tracker = new ProgressTracker(opts.onProgress ?? (() => {}))
+  tracker.start([
+    ...sectors.map((i) => ({
+      kind: "erase" as const,
+      label: `Erasing sector ${i}`,
+      bytes: layout.sectors[i].end - layout.sectors[i].start,
+    })),
+    { kind: "write", label: "Writing panda.bin", bytes: app.byteLength },
+    { kind: "reboot", label: "Rebooting", bytes: 0 },
+  ])
+
+  await client.open()
+  if (!(await client.flasherPresent())) throw new BootstubFlasherError()
+  log(`[v0] 🥾 Flashing ${app.byteLength} bytes through the bootstub (sectors ${sectors.join(", ")})`)
+
+  onStatus("Erasing the app area...")
+  await client.unlock()
+  for (const i of sectors) {
+    signal?.throwIfAborted()
+    tracker.next()
+    await client.eraseSector(i)
+    tracker.handle({ type: "erase", address: layout.sectors[i].start })
+  }
+
+  onStatus("Writing panda.bin...")
+  tracker.next()
+  const bytes = new Uint8Array(app)
+  for (let off = 0; off < bytes.byteLength; off += CHUNK) {
+    signal?.throwIfAborted()
+    await client.write(bytes.subarray(off, off + CHUNK))
+    const done = Math.min(off + CHUNK, bytes.byteLength)
+    if (done % 0x400 === 0 || done === bytes.byteLength) {
+      tracker.handle({ type: "download", done, total: bytes.byteLength })
+    }
+  }
+
+  // The reset drops the panda off the bus before it can acknowledge
+  tracker.next()
+  log("[v0] 🚪 Resetting into the new app...")
+  await client.reset().catch(() => {})
+  tracker.finish()
+}
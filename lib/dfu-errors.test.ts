@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest"
+import {
+  DfuCancelledError,
+  DfuStatusError,
+  DfuTimeoutError,
+  DfuTransportError,
+  explainDfuError,
+  toTransportError,
+} from "@/lib/dfu-errors"
+
+describe("DFU errors", () => {
+  it("names the DFU 1.1 status code a device reported", () => {
+    const e = new DfuStatusError("DFUSe ERASE", { status: 0x04, state: 10 })
+    expect(e.message).toBe("DFUSe ERASE failed: status=4 (errERASE), state=10")
+    expect(e.name).toBe("DfuStatusError")
+    expect(explainDfuError(e)).toEqual({
+      explanation: "The bootloader reported errERASE: Memory erase function failed.",
+      recovery: "The sector may be write-protected. Check the option bytes, then power-cycle the panda and retry.",
+    })
+  })
+
+  it("tells a device that left the bus from a failed transfer", () => {
+    const gone = toTransportError(new DOMException("The device was disconnected.", "NotFoundError"))
+    const broken = toTransportError(new DOMException("A transfer error has occurred.", "NetworkError"))
+
+    expect(gone).toBeInstanceOf(DfuTransportError)
+    expect((gone as DfuTransportError).disconnected).toBe(true)
+    expect((broken as DfuTransportError).disconnected).toBe(false)
+    expect((toTransportError(new Error("Endpoint disconnected")) as DfuTransportError).disconnected).toBe(false)
+    expect(explainDfuError(broken)?.recovery).toMatch(/different cable/)
+  })
+
+  it("warns against unplugging when an interrupted job left sectors half-written", () => {
+    const clean = new DfuCancelledError()
+    const partial = new DfuTimeoutError("Write panda.bin", 30000)
+    partial.partialSectors = ["0x08004000 (2048 of 16384 bytes written)"]
+
+    expect(explainDfuError(clean)?.recovery).toBe("Nothing was left half-written.")
+    expect(explainDfuError(partial)?.recovery).toMatch(/do not unplug/)
+  })
+
+  it("leaves errors from outside the DFU layer to the caller", () => {
+    expect(explainDfuError(new Error("Verification failed for panda.bin"))).toBeNull()
+  })
+})
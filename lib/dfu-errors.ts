@@ -0,0 +1,189 @@
+/** ---------- DFU error taxonomy ---------- */
+// Every failure the DFU layer reports is one of these, so callers branch on the class instead
+// of matching message text.
+
+/** DFU 1.1 bStatus codes (section 6.1.2) with the spec's description of each */
+export const DFU_STATUS: Record<number, { name: string; description: string }> = {
+  0x00: { name: "OK", description: "No error condition is present" },
+  0x01: { name: "errTARGET", description: "File is not targeted for use by this device" },
+  0x02: { name: "errFILE", description: "File is for this device but fails a vendor-specific verification test" },
+  0x03: { name: "errWRITE", description: "Device is unable to write memory" },
+  0x04: { name: "errERASE", description: "Memory erase function failed" },
+  0x05: { name: "errCHECK_ERASED", description: "Memory erase check failed" },
+  0x06: { name: "errPROG", description: "Program memory function failed" },
+  0x07: { name: "errVERIFY", description: "Programmed memory failed verification" },
+  0x08: { name: "errADDRESS", description: "Cannot program memory due to an address out of range" },
+  0x09: { name: "errNOTDONE", description: "Received the final zero-length block before all data" },
+  0x0a: { name: "errFIRMWARE", description: "Device's firmware is corrupt and cannot return to run-time operation" },
+  0x0b: { name: "errVENDOR", description: "Vendor-specific error" },
+  0x0c: { name: "errUSBR", description: "Device detected unexpected USB reset signaling" },
+  0x0d: { name: "errPOR", description: "Device detected an unexpected power-on reset" },
+  0x0e: { name: "errUNKNOWN", description: "Something went wrong, but the device does not know what" },
+  0x0f: { name: "errSTALLEDPKT", description: "Device stalled an unexpected request" },
+}
+
+export const dfuStatusName = (status: number) => DFU_STATUS[status]?.name ?? `status 0x${status.toString(16)}`
+
+export class DfuError extends Error {
+  /** Sectors the failed job left erased but not fully written, when it got that far */
+  partialSectors: string[] = []
+
+  constructor(message: string) {
+    super(message)
+    this.name = new.target.name
+  }
+}
+
+/** The device answered GETSTATUS with a bStatus other than OK */
+export class DfuStatusError extends DfuError {
+  status: number
+  state: number
+
+  constructor(operation: string, st: { status: number; state: number }) {
+    super(`${operation} failed: status=${st.status} (${dfuStatusName(st.status)}), state=${st.state}`)
+    this.status = st.status
+    this.state = st.state
+  }
+
+  get statusName() {
+    return dfuStatusName(this.status)
+  }
+}
+
+/** A USB transfer failed: the device stalled it, or left the bus */
+export class DfuTransportError extends DfuError {
+  /** The device is gone, typically because it rebooted or was unplugged */
+  disconnected: boolean
+
+  constructor(message: string, disconnected: boolean) {
+    super(message)
+    this.disconnected = disconnected
+  }
+}
+
+/** An operation did not finish in time; the DFU layer stopped it at a block boundary */
+export class DfuTimeoutError extends DfuError {
+  timeoutMs: number
+
+  constructor(operation: string, timeoutMs: number) {
+    super(`${operation} timed out after ${timeoutMs}ms`)
+    this.timeoutMs = timeoutMs
+  }
+}
+
+/** The device is in a DFU state the protocol does not allow at this point */
+export class DfuStateError extends DfuError {
+  state: number
+
+  constructor(message: string, state: number) {
+    super(message)
+    this.state = state
+  }
+}
+
+/** Flash read back after writing differs from the image; `address` is the first byte that does */
+export class DfuVerifyError extends DfuError {
+  address: number
+
+  constructor(message: string, address: number) {
+    super(message)
+    this.address = address
+  }
+}
+
+/** The user cancelled; the device was returned to dfuIDLE at a block boundary */
+export class DfuCancelledError extends DfuError {
+  constructor() {
+    super("Cancelled by user")
+  }
+}
+
+/** The MCU's readout protection is on, so the ST bootloader refuses to read, erase or write flash */
+export class DfuProtectedError extends DfuError {
+  constructor() {
+    super("Flash is read-protected (RDP): the bootloader refuses to read, erase or write it")
+  }
+}
+
+/**
+ * Wrap whatever WebUSB threw for a transfer. A transfer to a vanished device rejects with a
+ * NotFoundError DOMException; anything else is a transfer failure on a device still present.
+ * Only the name is trusted: the message text differs between browsers and versions.
+ */
+export const toTransportError = (e: unknown): DfuError => {
+  if (e instanceof DfuError) return e
+  const message = e instanceof Error ? e.message : String(e)
+  return new DfuTransportError(message, e instanceof Error && e.name === "NotFoundError")
+}
+
+/** ---------- What to tell the user ---------- */
+export type ErrorHelp = { explanation: string; recovery: string }
+
+const STATUS_RECOVERY: Record<number, string> = {
+  0x01: "Make sure the firmware is built for this panda's MCU and load address.",
+  0x02: "The bootloader rejected the file - rebuild or re-download it.",
+  0x03: "Flash again. If it keeps failing, the sector may be write-protected - check the option bytes.",
+  0x04: "The sector may be write-protected. Check the option bytes, then power-cycle the panda and retry.",
+  0x05: "Power-cycle the panda and flash again.",
+  0x06: "Power-cycle the panda and flash again. Repeated failures point to worn flash.",
+  0x07: "Flash again. Repeated failures point to worn flash or an unstable supply.",
+  0x08: "The image does not fit this device's flash - check that the right firmware is selected.",
+  0x09: "The transfer ended early. Flash again.",
+  0x0a: "The device has no bootable firmware. Stay in DFU mode and flash again.",
+  0x0b: "The bootloader refused the request. Readout protection may be on - run recovery to check.",
+  0x0c: "The USB connection reset. Use a different cable or port and flash again.",
+  0x0d: "The panda lost power. Check the supply, reconnect it in DFU mode and flash again.",
+}
+
+/** A specific explanation and next step for an error from the DFU layer, or null for other errors */
+export const explainDfuError = (e: unknown): ErrorHelp | null => {
+  const partial = e instanceof DfuError && e.partialSectors.length > 0
+  const notBootable = partial
+    ? " The flash is incomplete - do not unplug the panda until it has been flashed again."
+    : ""
+
+  if (e instanceof DfuStatusError) {
+    return {
+      explanation: `The bootloader reported ${e.statusName}: ${DFU_STATUS[e.status]?.description ?? "unknown status"}.`,
+      recovery: (STATUS_RECOVERY[e.status] ?? "Reconnect the device in DFU mode and flash again.") + notBootable,
+    }
+  }
+  if (e instanceof DfuProtectedError) {
+    return {
+      explanation:
+        "The MCU's readout protection (RDP) is on. The ST bootloader will not read, erase or write flash until it is removed.",
+      recovery:
+        'Removing it mass-erases the whole flash: inspect the option bytes and click "Remove Read Protection" (or run `dfu-util -a 0 -s 0x08000000:unprotect:force`), then power-cycle the panda into DFU mode and run recovery again.',
+    }
+  }
+  if (e instanceof DfuCancelledError) {
+    return {
+      explanation: "Flashing was cancelled and the bootloader is back in dfuIDLE.",
+      recovery: partial ? `Flash again or roll back.${notBootable}` : "Nothing was left half-written.",
+    }
+  }
+  if (e instanceof DfuTimeoutError) {
+    return {
+      explanation: `${e.message}; the transfer was stopped and the bootloader returned to dfuIDLE.`,
+      recovery: `Reconnect the device in DFU mode and flash again.${notBootable}`,
+    }
+  }
+  if (e instanceof DfuTransportError) {
+    return e.disconnected
+      ? {
+          explanation: "The device left the USB bus before the flash was verified.",
+          recovery: "Reconnect the panda in DFU mode and flash again to get a verified result.",
+        }
+      : {
+          explanation: `A USB transfer failed (${e.message}).`,
+          recovery: "Try a different cable or USB port, reconnect the device and flash again.",
+        }
+  }
+  if (e instanceof DfuStateError) {
+    return {
+      explanation: `The bootloader is stuck in an unexpected state (${e.message}).`,
+      recovery: "Power-cycle the panda into DFU mode and connect again.",
+    }
+  }
+  return null
+}
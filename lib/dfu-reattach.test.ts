@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from "vitest"
+import { CAME_BACK, NEVER_LEFT, STOPPED, waitForBootloader } from "@/lib/dfu-reattach"
+import { ST_DFU_PID, ST_VID } from "@/lib/dfuse-file"
+import { PANDA_PID, PANDA_VID, type PandaUsb } from "@/lib/panda"
+
+const device = (vendorId: number, productId: number) => ({ vendorId, productId }) as USBDevice
+
+/** navigator.usb with `attached` granted and present; `plug`/`unplug` raise connect and disconnect */
+const fakeUsb = (attached: USBDevice[] = []) => {
+  const usb = new EventTarget()
+  const raise = (type: string, d: USBDevice) => usb.dispatchEvent(Object.assign(new Event(type), { device: d }))
+  return {
+    usb: Object.assign(usb, { getDevices: async () => attached }) as unknown as PandaUsb,
+    plug: (d: USBDevice) => raise("connect", d),
+    unplug: (d: USBDevice) => raise("disconnect", d),
+  }
+}
+
+describe("waitForBootloader", () => {
+  const panda = device(PANDA_VID, PANDA_PID)
+  const bootloader = device(ST_VID, ST_DFU_PID)
+
+  it("picks up a bootloader the page was granted before as soon as it enumerates", async () => {
+    const { usb, plug, unplug } = fakeUsb([panda])
+    const result = waitForBootloader(usb, { panda, timeoutMs: 1000, settleMs: 1000 })
+    setTimeout(() => unplug(panda), 5)
+    setTimeout(() => plug(bootloader), 10)
+    expect(await result).toEqual({ outcome: "attached", device: bootloader })
+  })
+
+  it("uses a bootloader that is already attached", async () => {
+    expect(await waitForBootloader(fakeUsb([bootloader]).usb, { timeoutMs: 20 })).toEqual({
+      outcome: "attached",
+      device: bootloader,
+    })
+  })
+
+  it("asks for the picker when the panda left but nothing permitted came back", async () => {
+    const { usb, unplug } = fakeUsb([panda])
+    const result = waitForBootloader(usb, { panda, timeoutMs: 20, settleMs: 40 })
+    setTimeout(() => unplug(panda), 5)
+    expect(await result).toEqual({ outcome: "needs-permission" })
+  })
+
+  it("diagnoses a panda that never rebooted or came back running its firmware", async () => {
+    expect(await waitForBootloader(fakeUsb([panda]).usb, { panda, timeoutMs: 20 })).toEqual({
+      outcome: "not-found",
+      diagnosis: NEVER_LEFT,
+    })
+
+    const { usb, plug, unplug } = fakeUsb([panda])
+    const result = waitForBootloader(usb, { panda, timeoutMs: 1000, settleMs: 40 })
+    setTimeout(() => unplug(panda), 5)
+    setTimeout(() => plug(panda), 10)
+    expect(await result).toEqual({ outcome: "not-found", diagnosis: CAME_BACK })
+  })
+
+  it("stops listening when the request never reached the panda", async () => {
+    const { usb } = fakeUsb([panda])
+    const remove = vi.spyOn(usb, "removeEventListener")
+    const stop = new AbortController()
+    const result = waitForBootloader(usb, { panda, timeoutMs: 1000, signal: stop.signal })
+    stop.abort()
+
+    expect(await result).toEqual({ outcome: "not-found", diagnosis: STOPPED })
+    expect(remove.mock.calls.map(([type]) => type)).toEqual(["connect", "disconnect"])
+
+    // Already aborted: nothing is registered at all
+    const add = vi.spyOn(usb, "addEventListener")
+    expect(await waitForBootloader(usb, { panda, signal: stop.signal })).toMatchObject({ diagnosis: STOPPED })
+    expect(add).not.toHaveBeenCalled()
+  })
+})
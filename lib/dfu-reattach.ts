@@ -0,0 +1,86 @@
+import { ST_DFU_PID, ST_VID } from "@/lib/dfuse-file"
+import { isPanda, type PandaUsb } from "@/lib/panda"
+
+/** ---------- Picking the bootloader back up after the panda reboots into it ---------- */
+// WebUSB remembers devices the user granted before: getDevices() lists them and "connect" fires
+// when one comes back, with no prompt. Only the first visit needs the ST bootloader picked by hand.
+
+export const isStBootloader = (device: Pick<USBDevice, "vendorId" | "productId">) =>
+  device.vendorId === ST_VID && device.productId === ST_DFU_PID
+
+export type ReattachResult =
+  /** A bootloader this page may already use is on the bus */
+  | { outcome: "attached"; device: USBDevice }
+  /** The panda left the bus but no permitted bootloader appeared: the user has to pick it once */
+  | { outcome: "needs-permission" }
+  /** Nothing suggests the panda reached the bootloader; `diagnosis` says what happened instead */
+  | { outcome: "not-found"; diagnosis: string }
+
+export type ReattachOptions = {
+  /** The panda that was asked to enter DFU mode, so its disconnect and return can be told apart */
+  panda?: USBDevice
+  /** How long the panda gets to drop off the bus */
+  timeoutMs?: number
+  /** Once it has, how long a permitted bootloader gets to enumerate */
+  settleMs?: number
+  /** Stop waiting, e.g. because the request never reached the panda; resolves as "not-found" */
+  signal?: AbortSignal
+}
+
+export const NEVER_LEFT =
+  "The panda never left normal mode, so it did not act on the request. Unplug it, hold the button (or fit the DFU jumper) while plugging it back in, then connect the DFU device."
+export const STOPPED = "Stopped waiting for the bootloader."
+export const CAME_BACK =
+  "The panda rebooted into its own firmware instead of the ST bootloader. Hold the button (or fit the DFU jumper) while plugging it in to force DFU mode."
+
+/**
+ * Wait for the ST bootloader to show up after asking `panda` to reboot into it. Call this before
+ * sending the request: the panda's disconnect is what separates "no permission" from "never rebooted".
+ * If sending fails, abort `signal` so the listeners and timers go with it.
+ */
+export const waitForBootloader = (usb: PandaUsb, opts: ReattachOptions = {}): Promise<ReattachResult> =>
+  new Promise((resolve) => {
+    const { panda, timeoutMs = 10000, settleMs = 5000, signal } = opts
+    if (signal?.aborted) return resolve({ outcome: "not-found", diagnosis: STOPPED })
+    let settle: ReturnType<typeof setTimeout> | undefined
+    let pandaBack = false
+
+    const done = (result: ReattachResult) => {
+      clearTimeout(timer)
+      clearTimeout(settle)
+      usb.removeEventListener("connect", onConnect)
+      usb.removeEventListener("disconnect", onDisconnect)
+      signal?.removeEventListener("abort", onAbort)
+      resolve(result)
+    }
+    const pandaGone = () => {
+      if (settle) return
+      // It rebooted, so the request was acted on; only the settle window matters now
+      clearTimeout(timer)
+      settle = setTimeout(
+        () => done(pandaBack ? { outcome: "not-found", diagnosis: CAME_BACK } : { outcome: "needs-permission" }),
+        settleMs,
+      )
+    }
+    const onConnect = (e: Event) => {
+      const device = (e as USBConnectionEvent).device
+      if (isStBootloader(device)) done({ outcome: "attached", device })
+      else if (isPanda(device)) pandaBack = true
+    }
+    const onDisconnect = (e: Event) => {
+      if ((e as USBConnectionEvent).device === panda) pandaGone()
+    }
+    const onAbort = () => done({ outcome: "not-found", diagnosis: STOPPED })
+    const timer = setTimeout(() => done({ outcome: "not-found", diagnosis: NEVER_LEFT }), timeoutMs)
+
+    // Listen first, so a device that comes or goes while getDevices() runs is not missed
+    usb.addEventListener("connect", onConnect)
+    usb.addEventListener("disconnect", onDisconnect)
+    signal?.addEventListener("abort", onAbort)
+    if (!panda) pandaGone()
+    usb.getDevices().then((devices) => {
+      const bootloader = devices.find(isStBootloader)
+      if (bootloader) done({ outcome: "attached", device: bootloader })
+      else if (panda && !devices.includes(panda)) pandaGone()
+    }, () => {})
+  })
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest"
+import { detachToDfuMode, isDfuRuntime, openDfuseDevice } from "@/lib/dfu-runtime"
+import { findDfuInterfaces, type DfuTransport } from "@/lib/dfu"
+import { DfuError } from "@/lib/dfu-errors"
+import { SimulatedDfuseDevice } from "@/lib/dfu-simulator"
+import type { PandaUsb } from "@/lib/panda"
+
+/**
+ * A plain DFU 1.1 device, by default an application exposing its runtime interface (protocol 0x01);
+ * records its control requests and bus resets
+ */
+const runtimeDevice = ({
+  bmAttributes = 0x03,
+  detachTimeout = 250,
+  serialNumber = "CAN0001",
+  protocol = 0x01,
+  dfuVersion = 0x0110,
+} = {}) => {
+  const requests: { request: number; value: number }[] = []
+  let resets = 0
+  let opened = false
+  const alternate = {
+    alternateSetting: 0,
+    interfaceClass: 0xfe,
+    interfaceSubclass: 0x01,
+    interfaceProtocol: protocol,
+    interfaceName: null,
+    endpoints: [],
+  } as USBAlternateInterface
+  const intf = { interfaceNumber: 0, alternate, alternates: [alternate], claimed: false } as unknown as USBInterface
+  const configuration = { configurationValue: 1, configurationName: null, interfaces: [intf] } as USBConfiguration
+
+  const descriptor = new Uint8Array([
+    ...[9, 0x02, 27, 0, 1, 1, 0, 0x80, 50],
+    ...[9, 0x04, 0, 0, 0, 0xfe, 0x01, protocol, 0],
+    ...[9, 0x21, bmAttributes, detachTimeout & 0xff, detachTimeout >> 8, 0x00, 0x04],
+    ...[dfuVersion & 0xff, dfuVersion >> 8],
+  ])
+
+  const device: DfuTransport = {
+    serialNumber,
+    configuration,
+    configurations: [configuration],
+    get opened() {
+      return opened
+    },
+    async open() {
+      opened = true
+    },
+    async close() {
+      opened = false
+    },
+    async selectConfiguration() {},
+    async claimInterface() {},
+    async selectAlternateInterface() {},
+    async controlTransferIn(_setup, length) {
+      return { status: "ok", data: new DataView(descriptor.buffer, 0, Math.min(length, descriptor.length)) }
+    },
+    async controlTransferOut(setup) {
+      requests.push({ request: setup.request, value: setup.value })
+      return { status: "ok", bytesWritten: 0 } as USBOutTransferResult
+    },
+    async reset() {
+      resets++
+    },
+  }
+  return { device, requests, resets: () => resets }
+}
+
+/** navigator.usb listing `attached`; `plug` raises connect */
+const fakeUsb = (attached: USBDevice[] = []) => {
+  const usb = new EventTarget()
+  return {
+    usb: Object.assign(usb, { getDevices: async () => attached }) as unknown as PandaUsb,
+    plug: (d: USBDevice) => usb.dispatchEvent(Object.assign(new Event("connect"), { device: d })),
+  }
+}
+
+const dfuMode = (serialNumber: string) => new SimulatedDfuseDevice({ serialNumber }) as unknown as USBDevice
+
+describe("detachToDfuMode", () => {
+  it("detaches with the device's wDetachTimeOut, resets the bus for it and picks it up in DFU mode", async () => {
+    const { device, requests, resets } = runtimeDevice({ bmAttributes: 0x03, detachTimeout: 250 })
+    const { usb, plug } = fakeUsb()
+    expect(isDfuRuntime(device)).toBe(true)
+
+    const back = detachToDfuMode(device, usb, () => {}, 1000)
+    const bootloader = dfuMode("CAN0001")
+    setTimeout(() => plug(dfuMode("OTHER")), 5)
+    setTimeout(() => plug(bootloader), 10)
+
+    expect(await back).toBe(bootloader)
+    expect(requests).toEqual([{ request: 0x00, value: 250 }])
+    expect(resets()).toBe(1)
+  })
+
+  it("leaves a device that detaches by itself alone, and finds it among the permitted devices", async () => {
+    const { device, resets } = runtimeDevice({ bmAttributes: 0x0b })
+    const bootloader = dfuMode("CAN0001")
+
+    expect(await detachToDfuMode(device, fakeUsb([bootloader]).usb, () => {}, 1000)).toBe(bootloader)
+    expect(resets()).toBe(0)
+    expect(isDfuRuntime(bootloader as unknown as DfuTransport)).toBe(false)
+  })
+
+  it("gives up when nothing this page may use comes back in DFU mode", async () => {
+    const { device } = runtimeDevice({ detachTimeout: 10 })
+    expect(await detachToDfuMode(device, fakeUsb().usb, () => {}, 20)).toBeNull()
+  })
+
+  it("refuses a device that comes back speaking plain DFU 1.1 instead of DfuSe", async () => {
+    const { device } = runtimeDevice({ bmAttributes: 0x0b })
+    const plain = runtimeDevice({ protocol: 0x02 }).device
+    const back = await detachToDfuMode(device, fakeUsb([plain as USBDevice]).usb, () => {}, 1000)
+    expect(back).toBe(plain)
+
+    const error = await openDfuseDevice(back!, findDfuInterfaces(back!)[0]).catch((e) => e)
+    expect(error).toBeInstanceOf(DfuError)
+    expect(error.message).toMatch(/DFU 1.1 device without DfuSe extensions is not supported/)
+    expect(plain.opened).toBe(false)
+
+    const bootloader = dfuMode("CAN0001")
+    expect((await openDfuseDevice(bootloader, findDfuInterfaces(bootloader)[0])).isDfuse).toBe(true)
+  })
+})
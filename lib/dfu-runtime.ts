@@ -0,0 +1,85 @@
+/** ---------- DFU 1.1 runtime mode: switching any compliant device into DFU mode ---------- */
+// A device running its application can expose a DFU runtime interface (protocol 0x01) next to
+// its own. DFU_DETACH on it, followed by a bus reset unless the device declares bitWillDetach,
+// makes it re-enumerate with a DFU-mode interface (protocol 0x02), often under another product
+// id. This is the standard counterpart of the panda's vendor request 0xd1.
+import { DfuDevice, findDfuInterfaces, type DfuSettings, type DfuTransport } from "@/lib/dfu"
+import { DfuError, DfuTransportError } from "@/lib/dfu-errors"
+import type { Logger } from "@/lib/flash"
+import type { PandaUsb } from "@/lib/panda"
+import { hex } from "@/lib/utils"
+
+/** The device runs its application and offers DFU only as a runtime interface */
+export const isDfuRuntime = (device: DfuTransport) =>
+  findDfuInterfaces(device, "runtime").length > 0 && findDfuInterfaces(device).length === 0
+
+/**
+ * Resolve with a device in DFU mode once it is visible to this page, or null after `timeoutMs`.
+ * With `serialNumber` only that device counts: most keep their serial across the detach.
+ */
+export const waitForDfuMode = (usb: PandaUsb, timeoutMs: number, serialNumber?: string): Promise<USBDevice | null> =>
+  new Promise((resolve) => {
+    const matches = (device: USBDevice) =>
+      findDfuInterfaces(device).length > 0 &&
+      (!serialNumber || !device.serialNumber || device.serialNumber === serialNumber)
+    const done = (device: USBDevice | null) => {
+      clearTimeout(timer)
+      usb.removeEventListener("connect", onConnect)
+      resolve(device)
+    }
+    const onConnect = (e: Event) => {
+      const device = (e as USBConnectionEvent).device
+      if (matches(device)) done(device)
+    }
+    const timer = setTimeout(() => done(null), timeoutMs)
+    usb.addEventListener("connect", onConnect)
+    usb.getDevices().then((devices) => {
+      const dfu = devices.find(matches)
+      if (dfu) done(dfu)
+    }, () => {})
+  })
+
+/**
+ * Send DFU_DETACH through `device`'s runtime interface with the device's own wDetachTimeOut, reset
+ * the bus if it will not detach by itself, and wait for it to come back in DFU mode. Resolves with
+ * null when it did not reappear among the devices this page may use, so the user has to pick it.
+ */
+export const detachToDfuMode = async (device: DfuTransport, usb: PandaUsb, log: Logger, timeoutMs = 10000) => {
+  const [runtime] = findDfuInterfaces(device, "runtime")
+  if (!runtime) throw new Error("The device has no DFU runtime interface")
+
+  const dev = new DfuDevice(device, runtime)
+  await dev.open()
+  const { willDetach, detachTimeoutMs } = dev.attributes
+  log(
+    `[v0] 🔁 DFU_DETACH (wDetachTimeOut ${detachTimeoutMs}ms)${willDetach ? "" : ", then a USB reset - the device does not detach by itself"}`,
+  )
+
+  // Listen first: the device may be back before the detach call returns
+  const back = waitForDfuMode(usb, timeoutMs + detachTimeoutMs, device.serialNumber ?? undefined)
+  try {
+    await dev.detach()
+  } catch (e) {
+    // Leaving the bus is what the request asks for
+    if (!(e instanceof DfuTransportError && e.disconnected)) throw e
+  }
+  await dev.close()
+  return back
+}
+
+/**
+ * Open `settings` on a device in DFU mode, refusing one without ST's DFUSe extensions: plain DFU 1.1
+ * takes a single image downloaded from block 0 with no addresses, erase or read, so nothing here
+ * could flash or verify it. The device is closed again before the error is thrown.
+ */
+export const openDfuseDevice = async (device: DfuTransport, settings: DfuSettings) => {
+  const dev = new DfuDevice(device, settings)
+  await dev.open()
+  if (!dev.isDfuse) {
+    await dev.close()
+    throw new DfuError(
+      `DFU 1.1 device without DfuSe extensions is not supported (bcdDFUVersion ${hex(dev.attributes.dfuVersion, 4)})`,
+    )
+  }
+  return dev
+}
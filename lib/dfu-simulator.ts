@@ -0,0 +1,607 @@
+import { DFUSE_VERSION, DfuDevice, type DfuTransport } from "@/lib/dfu"
+import { parseMemoryLayout, type MemoryLayout } from "@/lib/dfuse-layout"
+import { OPTION_BYTES_ADDRESS } from "@/lib/option-bytes"
+
+/** ---------- In-memory STM32 DFUSe bootloader ---------- */
+// Emulates the ST system bootloader (0x0483:0xdf11) behind the USBDevice surface DfuDevice
+// uses, so the flash pipeline can run without a panda on the bench: in unit tests, or in the
+// browser via ?simulate.
+
+const { DFU, STATE, STATUS } = DfuDevice
+
+const DFUSE_CMD = { GET_COMMANDS: 0x00, SET_ADDRESS: 0x21, ERASE: 0x41, READ_UNPROTECT: 0x92 } as const
+
+const REQUEST_NAME: Record<number, string> = {
+  [DFU.DETACH]: "DETACH",
+  [DFU.DNLOAD]: "DNLOAD",
+  [DFU.UPLOAD]: "UPLOAD",
+  [DFU.GETSTATUS]: "GETSTATUS",
+  [DFU.CLRSTATUS]: "CLRSTATUS",
+  [DFU.GETSTATE]: "GETSTATE",
+  [DFU.ABORT]: "ABORT",
+}
+
+/** What a fault rule gets to look at before the device handles a class request */
+export type SimulatedRequest = {
+  name: string
+  request: number
+  /** wValue: the block number for DNLOAD/UPLOAD */
+  block: number
+  length: number
+  /** State before the request is handled */
+  state: number
+  /** DFUSe command byte of a block-0 DNLOAD */
+  command?: number
+  /** 1-based count of requests with this name so far */
+  count: number
+}
+
+export type FaultAction =
+  /** Answer the control transfer with a STALL */
+  | "stall"
+  /** Drop off the bus: this and every later transfer fails until reattach() */
+  | "disconnect"
+  /** Fail the pending operation with this bStatus; sticky errors survive CLRSTATUS */
+  | { status: number; sticky?: boolean }
+
+export type FaultRule = {
+  match: (req: SimulatedRequest) => boolean
+  action: FaultAction
+  /** How many times the rule fires, default 1 */
+  times?: number
+}
+
+export type SimulatorEvent =
+  | { type: "set-address"; address: number }
+  | { type: "erase"; address: number }
+  | { type: "mass-erase" }
+  | { type: "write"; block: number; address: number; length: number }
+  | { type: "read"; block: number; address: number; length: number }
+  | { type: "manifest"; address: number }
+  | { type: "fault"; request: string; action: string }
+  | { type: "reset" }
+
+export type SimulatorOptions = {
+  serialNumber?: string
+  /** One DFUSe memory-layout string per alternate setting */
+  alternates?: string[]
+  /** wTransferSize; also the stride DFUSe uses to map block numbers to addresses */
+  transferSize?: number
+  /**
+   * bmAttributes of the DFU functional descriptor. The device behaves as declared after the final
+   * block: bitManifestationTolerant returns to dfuIDLE, otherwise it leaves the bus (bitWillDetach)
+   * or waits in dfuMANIFEST_WAIT_RESET until reset()
+   */
+  bmAttributes?: number
+  /** bwPollTimeout reported while busy, in ms */
+  pollTimeout?: { command: number; write: number; erase: number }
+  /** Initial contents of alternate 0, written from its first address */
+  flash?: ArrayBuffer
+  /** Readout protection (RDP level 1): everything but GET_COMMANDS and READ_UNPROTECT fails with errVENDOR */
+  readProtected?: boolean
+  /** Flash sectors whose nWRP option bit is cleared: erasing or writing them fails */
+  writeProtected?: number[]
+  faults?: FaultRule[]
+}
+
+/** Factory option bytes of an STM32F205: RDP level 0, BOR off, software watchdog, no write protection */
+const FACTORY_OPTION_BYTES = [
+  0xec, 0xaa, 0x13, 0x55, 0xff, 0xff, 0x00, 0x00, 0xff, 0x0f, 0x00, 0xf0, 0xff, 0xff, 0x00, 0x00,
+]
+
+export const ST_BOOTLOADER_ALTERNATES = [
+  "@Internal Flash  /0x08000000/04*016Kg,01*064Kg,03*128Kg",
+  "@Option Bytes  /0x1FFFC000/01*016 e",
+]
+
+type Memory = { layout: MemoryLayout; bytes: Uint8Array }
+
+type PendingOp =
+  | { kind: "command"; data: Uint8Array }
+  | { kind: "write"; block: number; data: Uint8Array }
+
+type MutableInterface = {
+  interfaceNumber: number
+  alternate: USBAlternateInterface
+  alternates: USBAlternateInterface[]
+  claimed: boolean
+}
+
+const disconnectedError = () => new DOMException("The device was disconnected.", "NotFoundError")
+
+export class SimulatedDfuseDevice implements DfuTransport {
+  readonly vendorId = 0x0483
+  readonly productId = 0xdf11
+  readonly productName = "STM32  BOOTLOADER"
+  readonly serialNumber: string
+
+  opened = false
+  configuration: USBConfiguration | null = null
+  readonly configurations: USBConfiguration[]
+
+  /** Everything the bootloader did, in order */
+  readonly events: SimulatorEvent[] = []
+  /** Block numbers of every DNLOAD, in order */
+  readonly dnloadBlocks: number[] = []
+  faults: FaultRule[]
+  readProtected: boolean
+
+  private readonly intf: MutableInterface
+  private readonly memories: Memory[]
+  private readonly transferSize: number
+  private readonly bmAttributes: number
+  private readonly pollTimeout: { command: number; write: number; erase: number }
+
+  private state: number = STATE.dfuIDLE
+  private status: number = STATUS.OK
+  private stickyError = false
+  private addressPointer: number
+  private pending: PendingOp | null = null
+  /** An injected failure for the operation the current DNLOAD queues up */
+  private injected: { status: number; sticky?: boolean } | null = null
+  private connected = true
+  private requestCounts = new Map<string, number>()
+
+  constructor(opts: SimulatorOptions = {}) {
+    this.serialNumber = opts.serialNumber ?? "SIM000000001"
+    this.transferSize = opts.transferSize ?? 2048
+    this.bmAttributes = opts.bmAttributes ?? 0x0b // bitCanDnload | bitCanUpload | bitWillDetach
+    this.pollTimeout = opts.pollTimeout ?? { command: 1, write: 1, erase: 5 }
+    this.faults = opts.faults ?? []
+    this.readProtected = opts.readProtected ?? false
+
+    const names = opts.alternates ?? ST_BOOTLOADER_ALTERNATES
+    this.memories = names.map((name) => {
+      const layout = parseMemoryLayout(name)
+      const size = layout.sectors[layout.sectors.length - 1].end - layout.sectors[0].start
+      return { layout, bytes: new Uint8Array(size).fill(0xff) }
+    })
+    if (opts.flash) this.memories[0].bytes.set(new Uint8Array(opts.flash))
+    const options = this.optionBytes
+    if (options) {
+      options.set(FACTORY_OPTION_BYTES.slice(0, options.byteLength))
+      if (this.readProtected) options.set([0x00, 0xff], 1)
+      let nWrp = 0x0fff
+      for (const sector of opts.writeProtected ?? []) nWrp &= ~(1 << sector)
+      options.set([nWrp & 0xff, nWrp >> 8, ~nWrp & 0xff, (~nWrp >> 8) & 0xff], 8)
+    }
+    this.addressPointer = this.memories[0].layout.sectors[0].start
+
+    const alternates = names.map(
+      (name, i) =>
+        ({
+          alternateSetting: i,
+          interfaceClass: 0xfe,
+          interfaceSubclass: 0x01,
+          interfaceProtocol: 0x02,
+          interfaceName: name,
+          endpoints: [],
+        }) as USBAlternateInterface,
+    )
+    this.intf = { interfaceNumber: 0, alternate: alternates[0], alternates, claimed: false }
+    this.configurations = [
+      { configurationValue: 1, configurationName: null, interfaces: [this.intf as USBInterface] } as USBConfiguration,
+    ]
+  }
+
+  // ---- inspection helpers for tests and the UI ----
+  get currentState() {
+    return this.state
+  }
+
+  get isConnected() {
+    return this.connected
+  }
+
+  /** A copy of `length` bytes of alternate `alt` starting at `address` */
+  readMemory(address: number, length: number, alt = 0) {
+    const mem = this.memories[alt]
+    const offset = address - mem.layout.sectors[0].start
+    return mem.bytes.slice(offset, offset + length)
+  }
+
+  /** Come back on the bus in DFU mode, as after a BOOT0 power cycle */
+  reattach() {
+    this.connected = true
+    this.opened = false
+    this.intf.claimed = false
+    this.configuration = null
+    this.state = STATE.dfuIDLE
+    this.status = STATUS.OK
+    this.stickyError = false
+    this.pending = null
+    this.injected = null
+  }
+
+  // ---- USBDevice surface ----
+  async open() {
+    this.assertConnected()
+    this.opened = true
+  }
+
+  async close() {
+    this.opened = false
+    this.intf.claimed = false
+  }
+
+  async selectConfiguration(configurationValue: number) {
+    this.assertOpen()
+    const conf = this.configurations.find((c) => c.configurationValue === configurationValue)
+    if (!conf) throw new DOMException("The configuration value provided is not supported.", "NotFoundError")
+    this.configuration = conf
+  }
+
+  async claimInterface(interfaceNumber: number) {
+    this.assertOpen()
+    if (interfaceNumber !== this.intf.interfaceNumber) {
+      throw new DOMException("The interface number provided is not supported.", "NotFoundError")
+    }
+    this.intf.claimed = true
+  }
+
+  async selectAlternateInterface(interfaceNumber: number, alternateSetting: number) {
+    this.assertOpen()
+    const alt = this.intf.alternates[alternateSetting]
+    if (interfaceNumber !== this.intf.interfaceNumber || !alt) {
+      throw new DOMException("The alternate setting provided is not supported.", "NotFoundError")
+    }
+    this.intf.alternate = alt
+  }
+
+  async reset() {
+    this.assertOpen()
+    this.events.push({ type: "reset" })
+    // The bus reset a device without bitWillDetach was waiting for: it boots the application
+    if (this.state === STATE.dfuMANIFEST_WAIT_RESET) return this.leave()
+    this.state = STATE.dfuIDLE
+    this.status = STATUS.OK
+    this.pending = null
+    this.injected = null
+  }
+
+  async controlTransferIn(setup: USBControlTransferParameters, length: number): Promise<USBInTransferResult> {
+    this.assertOpen()
+    if (setup.requestType === "standard") return this.standardIn(setup, length)
+
+    const fault = this.checkFaults(setup, length, undefined)
+    if (fault === "stall") return { status: "stall" } as USBInTransferResult
+
+    switch (setup.request) {
+      case DFU.GETSTATUS:
+        return this.ok(this.getStatus())
+      case DFU.GETSTATE:
+        return this.ok(new Uint8Array([this.state]))
+      case DFU.UPLOAD: {
+        const data = this.upload(setup.value, length)
+        return data ? this.ok(data) : this.stall()
+      }
+      default:
+        return this.stall()
+    }
+  }
+
+  async controlTransferOut(setup: USBControlTransferParameters, data?: BufferSource): Promise<USBOutTransferResult> {
+    this.assertOpen()
+    const bytes = data ? new Uint8Array(ArrayBuffer.isView(data) ? data.buffer : data) : new Uint8Array(0)
+    const view = ArrayBuffer.isView(data) ? bytes.subarray(data.byteOffset, data.byteOffset + data.byteLength) : bytes
+
+    const fault = this.checkFaults(setup, view.byteLength, view)
+    if (fault === "stall") return { status: "stall", bytesWritten: 0 } as USBOutTransferResult
+
+    let accepted = false
+    switch (setup.request) {
+      case DFU.DNLOAD:
+        accepted = this.dnload(setup.value, view)
+        break
+      case DFU.CLRSTATUS:
+        if (this.state === STATE.dfuERROR && !this.stickyError) {
+          this.state = STATE.dfuIDLE
+          this.status = STATUS.OK
+        }
+        accepted = true
+        break
+      case DFU.ABORT:
+        // ST's bootloader accepts ABORT everywhere; an error state still needs CLRSTATUS
+        if (this.state !== STATE.dfuERROR) this.state = STATE.dfuIDLE
+        this.pending = null
+        this.injected = null
+        accepted = true
+        break
+      case DFU.DETACH:
+        accepted = true
+        break
+    }
+    if (!accepted) {
+      this.state = STATE.dfuERROR
+      this.status = STATUS.errSTALLEDPKT
+      return { status: "stall", bytesWritten: 0 } as USBOutTransferResult
+    }
+    return { status: "ok", bytesWritten: view.byteLength } as USBOutTransferResult
+  }
+
+  // ---- DFU state machine ----
+  private dnload(block: number, data: Uint8Array) {
+    this.dnloadBlocks.push(block)
+    if (this.state !== STATE.dfuIDLE && this.state !== STATE.dfuDNLOAD_IDLE) return false
+
+    if (data.byteLength === 0) {
+      // Zero-length DNLOAD ends the download; DFUSe leaves for the address pointer's firmware
+      if (this.state !== STATE.dfuDNLOAD_IDLE) return false
+      this.state = STATE.dfuMANIFEST_SYNC
+      return true
+    }
+
+    if (block === 0) this.pending = { kind: "command", data: data.slice() }
+    else if (block >= 2) this.pending = { kind: "write", block, data: data.slice() }
+    else return false
+
+    this.state = STATE.dfuDNLOAD_SYNC
+    return true
+  }
+
+  private getStatus() {
+    let pollTimeout = 0
+
+    if (this.state === STATE.dfuDNLOAD_SYNC && this.pending) {
+      const op = this.pending
+      this.pending = null
+      if (this.injected) {
+        this.fail(this.injected.status, this.injected.sticky)
+        this.injected = null
+      } else if (op.kind === "command") {
+        const status = this.runCommand(op.data)
+        pollTimeout = op.data[0] === DFUSE_CMD.ERASE ? this.pollTimeout.erase : this.pollTimeout.command
+        if (status !== STATUS.OK) this.fail(status)
+      } else if (op.kind === "write") {
+        const status = this.write(op)
+        pollTimeout = this.pollTimeout.write
+        if (status !== STATUS.OK) this.fail(status)
+      }
+      if (this.state === STATE.dfuDNLOAD_SYNC) this.state = STATE.dfuDNBUSY
+      else pollTimeout = 0
+    } else if (this.state === STATE.dfuDNBUSY) {
+      this.state = STATE.dfuDNLOAD_IDLE
+    } else if (this.state === STATE.dfuMANIFEST_SYNC) {
+      this.state = STATE.dfuMANIFEST
+      this.events.push({ type: "manifest", address: this.addressPointer })
+    } else if (this.state === STATE.dfuMANIFEST) {
+      // Only a manifestation tolerant device is still here to be asked
+      this.state = STATE.dfuIDLE
+    }
+
+    const out = new Uint8Array(6)
+    out[0] = this.status
+    out[1] = pollTimeout & 0xff
+    out[2] = (pollTimeout >> 8) & 0xff
+    out[3] = (pollTimeout >> 16) & 0xff
+    out[4] = this.state
+    // ST's bootloader resets into the application right after reporting dfuMANIFEST
+    if (this.state === STATE.dfuMANIFEST && !(this.bmAttributes & 0x04)) {
+      if (this.bmAttributes & 0x08) this.leave()
+      else this.state = STATE.dfuMANIFEST_WAIT_RESET
+    }
+    return out
+  }
+
+  private runCommand(cmd: Uint8Array) {
+    const addr = cmd.byteLength >= 5 ? new DataView(cmd.buffer, cmd.byteOffset).getUint32(1, true) : undefined
+    if (this.flashLocked && cmd[0] !== DFUSE_CMD.GET_COMMANDS && cmd[0] !== DFUSE_CMD.READ_UNPROTECT) {
+      return STATUS.errVENDOR
+    }
+
+    switch (cmd[0]) {
+      case DFUSE_CMD.SET_ADDRESS:
+        if (addr === undefined || !this.sectorAt(addr)) return STATUS.errADDRESS
+        this.addressPointer = addr
+        this.events.push({ type: "set-address", address: addr })
+        return STATUS.OK
+      case DFUSE_CMD.ERASE: {
+        if (addr === undefined) {
+          // A mass erase stops before erasing anything if a single sector is write-protected
+          if (this.memory.layout.sectors.some((_, i) => this.isWriteProtected(i))) return STATUS.errERASE
+          for (const sector of this.memory.layout.sectors) if (sector.erasable) this.fill(sector.start, sector.end)
+          this.events.push({ type: "mass-erase" })
+          return STATUS.OK
+        }
+        const sector = this.sectorAt(addr)
+        if (!sector) return STATUS.errADDRESS
+        if (!sector.erasable) return STATUS.errTARGET
+        if (this.isWriteProtected(this.memory.layout.sectors.indexOf(sector))) return STATUS.errERASE
+        this.fill(sector.start, sector.end)
+        this.events.push({ type: "erase", address: addr })
+        return STATUS.OK
+      }
+      case DFUSE_CMD.READ_UNPROTECT:
+        // Back to level 0, paid for with a mass erase of the flash
+        this.readProtected = false
+        this.memories[0].bytes.fill(0xff)
+        this.optionBytes?.set([0xaa, 0x13, 0x55], 1)
+        this.events.push({ type: "mass-erase" })
+        return STATUS.OK
+      default:
+        return STATUS.errSTALLEDPKT
+    }
+  }
+
+  /** Program flash; like real NOR flash, bits can only go from 1 to 0 without an erase */
+  private write(op: { block: number; data: Uint8Array }) {
+    if (this.flashLocked) return STATUS.errVENDOR
+    const address = this.addressPointer + (op.block - 2) * this.transferSize
+    const end = address + op.data.byteLength
+    for (let a = address; a < end; ) {
+      const sector = this.sectorAt(a)
+      if (!sector) return STATUS.errADDRESS
+      if (!sector.writable) return STATUS.errTARGET
+      if (this.isWriteProtected(this.memory.layout.sectors.indexOf(sector))) return STATUS.errWRITE
+      a = sector.end
+    }
+
+    const mem = this.memory
+    const offset = address - mem.layout.sectors[0].start
+    for (let i = 0; i < op.data.byteLength; i++) {
+      const old = mem.bytes[offset + i]
+      if ((old & op.data[i]) !== op.data[i]) return STATUS.errWRITE
+    }
+    mem.bytes.set(op.data, offset)
+    this.events.push({ type: "write", block: op.block, address, length: op.data.byteLength })
+    return STATUS.OK
+  }
+
+  private upload(block: number, length: number) {
+    if (this.state !== STATE.dfuIDLE && this.state !== STATE.dfuUPLOAD_IDLE) return null
+
+    if (block === 0) {
+      this.state = STATE.dfuUPLOAD_IDLE
+      return new Uint8Array(Object.values(DFUSE_CMD)).slice(0, length)
+    }
+    if (block < 2) return null
+    if (this.flashLocked) {
+      this.fail(STATUS.errVENDOR)
+      return null
+    }
+
+    const address = this.addressPointer + (block - 2) * this.transferSize
+    const mem = this.memory
+    const start = mem.layout.sectors[0].start
+    const end = mem.layout.sectors[mem.layout.sectors.length - 1].end
+    if (address < start || address >= end) {
+      this.fail(STATUS.errADDRESS)
+      return null
+    }
+
+    const data = mem.bytes.slice(address - start, Math.min(address - start + length, end - start))
+    this.events.push({ type: "read", block, address, length: data.byteLength })
+    // A short block ends the upload
+    this.state = data.byteLength < length ? STATE.dfuIDLE : STATE.dfuUPLOAD_IDLE
+    return data
+  }
+
+  // ---- helpers ----
+  private get memory() {
+    return this.memories[this.intf.alternate.alternateSetting]
+  }
+
+  /** Readout protection locks the flash alternate only; the option bytes stay readable */
+  private get flashLocked() {
+    return this.readProtected && this.memory === this.memories[0]
+  }
+
+  private get optionBytes() {
+    return this.memories.find((m) => m.layout.sectors[0].start === OPTION_BYTES_ADDRESS)?.bytes
+  }
+
+  /** Whether flash sector `index` has its nWRP bit cleared in the option bytes */
+  private isWriteProtected(index: number) {
+    const options = this.optionBytes
+    if (this.memory !== this.memories[0] || !options || index < 0 || index > 11) return false
+    return !((options[8] | (options[9] << 8)) & (1 << index))
+  }
+
+  private sectorAt(addr: number) {
+    return this.memory.layout.sectors.find((s) => addr >= s.start && addr < s.end)
+  }
+
+  private fill(from: number, to: number, value = 0xff) {
+    const mem = this.memory
+    const base = mem.layout.sectors[0].start
+    mem.bytes.fill(value, from - base, to - base)
+  }
+
+  private fail(status: number, sticky = false) {
+    this.state = STATE.dfuERROR
+    this.status = status
+    this.stickyError ||= sticky
+    this.pending = null
+  }
+
+  private leave() {
+    this.connected = false
+    this.opened = false
+    this.intf.claimed = false
+  }
+
+  private ok(data: Uint8Array) {
+    return { status: "ok", data: new DataView(data.buffer, data.byteOffset, data.byteLength) } as USBInTransferResult
+  }
+
+  private stall() {
+    this.state = STATE.dfuERROR
+    this.status = STATUS.errSTALLEDPKT
+    return { status: "stall" } as USBInTransferResult
+  }
+
+  private assertConnected() {
+    if (!this.connected) throw disconnectedError()
+  }
+
+  private assertOpen() {
+    this.assertConnected()
+    if (!this.opened) throw new DOMException("The device must be opened first.", "InvalidStateError")
+  }
+
+  /** Apply the first matching fault rule; returns "stall" when the transfer must be stalled */
+  private checkFaults(setup: USBControlTransferParameters, length: number, data: Uint8Array | undefined) {
+    const name = REQUEST_NAME[setup.request] ?? `0x${setup.request.toString(16)}`
+    const count = (this.requestCounts.get(name) ?? 0) + 1
+    this.requestCounts.set(name, count)
+
+    const req: SimulatedRequest = {
+      name,
+      request: setup.request,
+      block: setup.value,
+      length,
+      state: this.state,
+      command: setup.request === DFU.DNLOAD && setup.value === 0 && data?.byteLength ? data[0] : undefined,
+      count,
+    }
+
+    const rule = this.faults.find((r) => (r.times ?? 1) > 0 && r.match(req))
+    if (!rule) return null
+    rule.times = (rule.times ?? 1) - 1
+
+    const action = rule.action
+    this.events.push({ type: "fault", request: name, action: typeof action === "string" ? action : `status ${action.status}` })
+    if (action === "disconnect") {
+      this.leave()
+      throw disconnectedError()
+    }
+    if (action === "stall") return "stall"
+    // A failing DNLOAD is accepted and reports the error on the following GETSTATUS
+    if (setup.request === DFU.DNLOAD) this.injected = action
+    else this.fail(action.status, action.sticky)
+    return null
+  }
+
+  // ---- standard requests: descriptors ----
+  private standardIn(setup: USBControlTransferParameters, length: number) {
+    const GET_DESCRIPTOR = 0x06
+    const DT_CONFIGURATION = 0x02
+    if (setup.request !== GET_DESCRIPTOR || setup.value >> 8 !== DT_CONFIGURATION) {
+      return { status: "stall" } as USBInTransferResult
+    }
+    const desc = this.configurationDescriptor()
+    return this.ok(desc.slice(0, length))
+  }
+
+  /** Config header, one interface descriptor per alternate, then the DFU functional descriptor (as ST sends it) */
+  private configurationDescriptor() {
+    const alts = this.intf.alternates
+    const total = 9 + alts.length * 9 + 9
+    const out = new Uint8Array(total)
+    const v = new DataView(out.buffer)
+    out.set([9, 0x02], 0)
+    v.setUint16(2, total, true)
+    out.set([1, 1, 0, 0xc0, 50], 4)
+
+    alts.forEach((alt, i) => {
+      out.set([9, 0x04, this.intf.interfaceNumber, alt.alternateSetting, 0, 0xfe, 0x01, 0x02, 4 + i], 9 + i * 9)
+    })
+
+    const func = 9 + alts.length * 9
+    out.set([9, 0x21, this.bmAttributes], func)
+    v.setUint16(func + 3, 255, true) // wDetachTimeOut
+    v.setUint16(func + 5, this.transferSize, true)
+    v.setUint16(func + 7, DFUSE_VERSION, true) // bcdDFUVersion
+    return out
+  }
+}
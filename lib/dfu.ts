@@ -0,0 +1,604 @@
+/** ---------- DFU 1.1 / ST DFUSe device library ---------- */
+import {
+  DfuError,
+  DfuStateError,
+  DfuStatusError,
+  DfuTimeoutError,
+  DfuTransportError,
+  toTransportError,
+} from "@/lib/dfu-errors"
+
+/**
+ * The parts of WebUSB's USBDevice the DFU layer drives. A real USBDevice satisfies it,
+ * so does an in-memory stand-in.
+ */
+export type DfuTransport = Pick<
+  USBDevice,
+  | "opened"
+  | "configuration"
+  | "configurations"
+  | "serialNumber"
+  | "open"
+  | "close"
+  | "selectConfiguration"
+  | "claimInterface"
+  | "selectAlternateInterface"
+  | "controlTransferIn"
+  | "controlTransferOut"
+  | "reset"
+>
+
+export type DfuSettings = {
+  configuration: USBConfiguration
+  interface: USBInterface
+  alternate: USBAlternateInterface
+  name?: string | null
+}
+
+export type DfuStatus = { status: number; pollTimeout: number; state: number }
+
+/** What the device just finished doing; progress is reported per do_download/do_upload call */
+export type DfuEvent =
+  | { type: "download"; done: number; total: number }
+  | { type: "upload"; done: number; total: number }
+  | { type: "set-address"; address: number }
+  | { type: "erase"; address: number }
+  | { type: "mass-erase" }
+  | { type: "manifest" }
+
+export class DfuDevice {
+  device: DfuTransport
+  settings: DfuSettings
+  onEvent: (event: DfuEvent) => void = () => {}
+  /** The interface's DFU functional descriptor, read by open(); null if the device does not report one */
+  functional: DfuFunctionalDescriptor | null = null
+
+  constructor(device: DfuTransport, settings: DfuSettings) {
+    this.device = device
+    this.settings = settings
+  }
+
+  // ---- open/claim/select alt ----
+  async open() {
+    if (!this.device.opened) await this.device.open()
+    if (
+      !this.device.configuration ||
+      this.device.configuration.configurationValue !== this.settings.configuration.configurationValue
+    ) {
+      await this.device.selectConfiguration(this.settings.configuration.configurationValue)
+    }
+    const intfNumber = this.settings.interface.interfaceNumber
+    if (!this.device.configuration!.interfaces[intfNumber].claimed) {
+      await this.device.claimInterface(intfNumber)
+    }
+    const alt = this.settings.alternate.alternateSetting ?? 0
+    const intf = this.device.configuration!.interfaces[intfNumber]
+    if (!intf.alternate || intf.alternate.alternateSetting !== alt || intf.alternates.length > 1) {
+      try {
+        await this.device.selectAlternateInterface(intfNumber, alt)
+      } catch (e) {
+        if (!intf.alternate || intf.alternate.alternateSetting !== alt) throw e
+      }
+    }
+    // A device that will not describe itself is treated like the ST bootloader
+    this.functional = await this.getFunctionalDescriptor().catch(() => null)
+  }
+
+  async close() {
+    try {
+      if (this.device.opened) await this.device.close()
+    } catch {
+      /* ignore */
+    }
+  }
+
+  // ---- core class control helpers ----
+  private async requestOut(request: number, data?: BufferSource, value = 0) {
+    const r = await this.device
+      .controlTransferOut(
+        {
+          requestType: "class",
+          recipient: "interface",
+          request,
+          value,
+          index: this.settings.interface.interfaceNumber,
+        },
+        data,
+      )
+      .catch((e) => Promise.reject(toTransportError(e)))
+    if (r.status !== "ok") throw new DfuTransportError(`controlTransferOut failed: ${r.status}`, false)
+    return r.bytesWritten ?? 0
+  }
+
+  private async requestIn(request: number, length: number, value = 0) {
+    const r = await this.device
+      .controlTransferIn(
+        {
+          requestType: "class",
+          recipient: "interface",
+          request,
+          value,
+          index: this.settings.interface.interfaceNumber,
+        },
+        length,
+      )
+      .catch((e) => Promise.reject(toTransportError(e)))
+    if (r.status !== "ok") throw new DfuTransportError(`controlTransferIn failed: ${r.status}`, false)
+    return r.data!
+  }
+
+  // ---- DFU constants & helpers ----
+  static readonly DFU = {
+    DETACH: 0x00,
+    DNLOAD: 0x01,
+    UPLOAD: 0x02,
+    GETSTATUS: 0x03,
+    CLRSTATUS: 0x04,
+    GETSTATE: 0x05,
+    ABORT: 0x06,
+  } as const
+
+  static readonly STATE = {
+    appIDLE: 0,
+    appDETACH: 1,
+    dfuIDLE: 2,
+    dfuDNLOAD_SYNC: 3,
+    dfuDNBUSY: 4,
+    dfuDNLOAD_IDLE: 5,
+    dfuMANIFEST_SYNC: 6,
+    dfuMANIFEST: 7,
+    dfuMANIFEST_WAIT_RESET: 8,
+    dfuUPLOAD_IDLE: 9,
+    dfuERROR: 10,
+  } as const
+
+  /** bStatus values from GETSTATUS */
+  static readonly STATUS = {
+    OK: 0x00,
+    errTARGET: 0x01,
+    errFILE: 0x02,
+    errWRITE: 0x03,
+    errERASE: 0x04,
+    errCHECK_ERASED: 0x05,
+    errPROG: 0x06,
+    errVERIFY: 0x07,
+    errADDRESS: 0x08,
+    errNOTDONE: 0x09,
+    errFIRMWARE: 0x0a,
+    errVENDOR: 0x0b,
+    errUSBR: 0x0c,
+    errPOR: 0x0d,
+    errUNKNOWN: 0x0e,
+    errSTALLEDPKT: 0x0f,
+  } as const
+
+  static readonly STATE_NAME: Record<number, string> = {
+    0: "appIDLE",
+    1: "appDETACH",
+    2: "dfuIDLE",
+    3: "dfuDNLOAD_SYNC",
+    4: "dfuDNBUSY",
+    5: "dfuDNLOAD_IDLE",
+    6: "dfuMANIFEST_SYNC",
+    7: "dfuMANIFEST",
+    8: "dfuMANIFEST_WAIT_RESET",
+    9: "dfuUPLOAD_IDLE",
+    10: "dfuERROR",
+  }
+
+  async getStatus(): Promise<DfuStatus> {
+    const d = await this.requestIn(DfuDevice.DFU.GETSTATUS, 6)
+    return { status: d.getUint8(0), pollTimeout: d.getUint32(1, true) & 0xffffff, state: d.getUint8(4) }
+  }
+  async getState() {
+    const d = await this.requestIn(DfuDevice.DFU.GETSTATE, 1)
+    return d.getUint8(0)
+  }
+
+  async abort() {
+    await this.requestOut(DfuDevice.DFU.ABORT)
+  }
+
+  async clearStatus() {
+    await this.requestOut(DfuDevice.DFU.CLRSTATUS)
+  }
+
+  /** What the device declares it can do; the ST bootloader's attributes when it declares nothing */
+  get attributes(): DfuAttributes {
+    return decodeAttributes(this.functional ?? ST_FUNCTIONAL)
+  }
+
+  /** The device speaks ST's DFUSe extensions (addressed download, erase, read) rather than plain DFU 1.1 */
+  get isDfuse() {
+    return this.attributes.dfuVersion === DFUSE_VERSION
+  }
+
+  /**
+   * DFU_DETACH: ask a runtime-mode device to switch to DFU mode within `timeoutMs`, by default
+   * its own wDetachTimeOut. A device without bitWillDetach waits for the host to reset the bus
+   * before it leaves, so it gets one; that it drops off the bus is expected.
+   */
+  async detach(timeoutMs = this.attributes.detachTimeoutMs) {
+    await this.requestOut(DfuDevice.DFU.DETACH, undefined, timeoutMs)
+    if (!this.attributes.willDetach) await this.device.reset().catch(() => {})
+  }
+
+  async abortToIdle() {
+    await this.abort()
+    let s = await this.getState()
+    if (s === DfuDevice.STATE.dfuERROR) {
+      await this.clearStatus()
+      s = await this.getState()
+    }
+    if (s !== DfuDevice.STATE.dfuIDLE) throw new DfuStateError(`Failed to return to IDLE, state=${s}`, s)
+  }
+
+  /** How long a block may keep the device busy after an abort before polling gives up on it */
+  static ABORT_GRACE_MS = 5000
+
+  /**
+   * Poll GETSTATUS until `targetState`. The bootloader cannot be interrupted while it erases or
+   * programs, so an abort lets the current block finish; only a device that stays busy past
+   * ABORT_GRACE_MS is abandoned.
+   */
+  private async pollUntil(targetState: number, signal?: AbortSignal) {
+    let st = await this.getStatus()
+    const sleep = (ms: number) => new Promise((res) => setTimeout(res, ms))
+    let abortedAt: number | undefined
+    while (st.state !== targetState && st.state !== DfuDevice.STATE.dfuERROR) {
+      if (signal?.aborted) {
+        abortedAt ??= Date.now()
+        if (Date.now() - abortedAt > DfuDevice.ABORT_GRACE_MS) {
+          throw new DfuTimeoutError(`Finishing the block after abort (state=${st.state})`, DfuDevice.ABORT_GRACE_MS)
+        }
+      }
+      console.debug(`[DFU] sleep ${st.pollTimeout}ms (state=${st.state}/${DfuDevice.STATE_NAME[st.state]})`)
+      await sleep(st.pollTimeout)
+      st = await this.getStatus()
+    }
+    return st
+  }
+
+  /**
+   * Block boundary: if `signal` fired, send DFU ABORT, wait for dfuIDLE and throw the abort
+   * reason, so nothing is left running on the device after a cancel or timeout.
+   */
+  private async stopIfAborted(signal?: AbortSignal) {
+    if (!signal?.aborted) return
+    console.log("[DFU] Aborted - returning the device to dfuIDLE")
+    await this.abortToIdle()
+    throw signal.reason
+  }
+
+  private async dnloadBlock(data: ArrayBuffer, blockNum: number, signal?: AbortSignal) {
+    if (!this.attributes.canDownload) throw new DfuError("The device does not accept downloads (bitCanDnload is clear)")
+    await this.stopIfAborted(signal)
+    await this.requestOut(DfuDevice.DFU.DNLOAD, data, blockNum)
+    return this.pollUntil(DfuDevice.STATE.dfuDNLOAD_IDLE, signal)
+  }
+
+  private async upload(length: number, blockNum: number) {
+    if (!this.attributes.canUpload) throw new DfuError("The device cannot upload (bitCanUpload is clear)")
+    return this.requestIn(DfuDevice.DFU.UPLOAD, length, blockNum)
+  }
+
+  /**
+   * Write data; for DFUSe we start at block 2 (block 0 is commands).
+   * On DFUSe the final zero-length block makes the bootloader leave DFU mode,
+   * so pass manifest=false while more regions still have to be written or read back.
+   * How the manifestation is followed up depends on what the device declares, see sendFinalBlock.
+   * An aborted `signal` stops the transfer before the next block.
+   */
+  async do_download(
+    xferSize: number,
+    data: ArrayBuffer,
+    firstBlock = 2,
+    manifest = true,
+    signal?: AbortSignal,
+  ) {
+    await this.abortToIdle()
+
+    const view = new Uint8Array(data)
+    let sent = 0
+    let block = firstBlock
+
+    this.onEvent({ type: "download", done: 0, total: view.byteLength })
+
+    while (sent < view.byteLength) {
+      const size = Math.min(xferSize, view.byteLength - sent)
+      const progress = Math.round((sent / view.byteLength) * 100)
+      console.log(`[DFU] Block ${block}: ${sent}/${view.byteLength} bytes (${progress}%) - sending ${size} bytes`)
+
+      const st = await this.dnloadBlock(view.slice(sent, sent + size).buffer, block++, signal)
+      if (st.status !== 0) throw new DfuStatusError(`DFU DOWNLOAD of block ${block - 1}`, st)
+      sent += size
+      this.onEvent({ type: "download", done: sent, total: view.byteLength })
+    }
+
+    if (!manifest) return
+
+    await this.stopIfAborted(signal)
+    await this.sendFinalBlock(block)
+  }
+
+  /**
+   * Zero-length DNLOAD, then follow the manifestation as the device declared: a manifestation
+   * tolerant device returns to dfuIDLE and reports the result; any other one reports once and
+   * then detaches by itself (bitWillDetach) or waits in dfuMANIFEST-WAIT-RESET for a bus reset.
+   */
+  private async sendFinalBlock(block: number) {
+    console.log(`[DFU] Sending final ZLP (block ${block})`)
+    await this.requestOut(DfuDevice.DFU.DNLOAD, new ArrayBuffer(0), block)
+    this.onEvent({ type: "manifest" })
+
+    const { manifestationTolerant, willDetach } = this.attributes
+    if (manifestationTolerant) {
+      const fin = await this.pollUntil(DfuDevice.STATE.dfuIDLE)
+      if (fin.status !== 0) throw new DfuStatusError("DFU MANIFEST", fin)
+      return
+    }
+    try {
+      await this.getStatus()
+    } catch {
+      /* ignore */
+    }
+    if (!willDetach) await this.device.reset().catch(() => {})
+  }
+
+  /** Read up to `length` bytes; for DFUSe block 2 maps to the address pointer */
+  async do_upload(xferSize: number, length: number, firstBlock = 2, signal?: AbortSignal): Promise<ArrayBuffer> {
+    await this.abortToIdle()
+
+    const out = new Uint8Array(length)
+    let read = 0
+    let block = firstBlock
+
+    this.onEvent({ type: "upload", done: 0, total: length })
+
+    while (read < length) {
+      // DFUSe derives the address from the block number and the request length,
+      // so every block except the last must use the same size
+      const size = Math.min(xferSize, length - read)
+      await this.stopIfAborted(signal)
+      const d = await this.upload(size, block++)
+      const got = Math.min(d.byteLength, size)
+      out.set(new Uint8Array(d.buffer, d.byteOffset, got), read)
+      read += got
+      this.onEvent({ type: "upload", done: read, total: length })
+      if (got < size) break // short block = end of readable memory
+    }
+
+    await this.abortToIdle()
+    return out.buffer.slice(0, read)
+  }
+
+  // ---- DFUSe vendor extensions ----
+  async dfuseSetAddress(addr: number, signal?: AbortSignal) {
+    const b = new ArrayBuffer(5)
+    const v = new DataView(b)
+    v.setUint8(0, 0x21)
+    v.setUint32(1, addr, true)
+    await this.abortToIdle()
+    const st = await this.dnloadBlock(b, 0, signal)
+    if (st.status !== 0) throw new DfuStatusError("DFUSe SETADDR", st)
+    this.onEvent({ type: "set-address", address: addr })
+  }
+
+  async dfuseErase(addr: number, signal?: AbortSignal) {
+    const b = new ArrayBuffer(5)
+    const v = new DataView(b)
+    v.setUint8(0, 0x41)
+    v.setUint32(1, addr, true)
+    await this.abortToIdle()
+    const st = await this.dnloadBlock(b, 0, signal)
+    if (st.status !== 0) throw new DfuStatusError("DFUSe ERASE", st)
+    this.onEvent({ type: "erase", address: addr })
+  }
+
+  /** ERASE without an address: the bootloader erases every erasable sector of the current alternate */
+  async dfuseMassErase(signal?: AbortSignal) {
+    await this.abortToIdle()
+    const st = await this.dnloadBlock(new Uint8Array([0x41]).buffer, 0, signal)
+    if (st.status !== 0) throw new DfuStatusError("DFUSe MASS ERASE", st)
+    this.onEvent({ type: "mass-erase" })
+  }
+
+  /**
+   * READ UNPROTECT: drop readout protection to level 0. The bootloader mass-erases the flash to
+   * do so and then resets, so a device that leaves the bus while reporting the result succeeded.
+   */
+  async dfuseReadUnprotect(signal?: AbortSignal) {
+    await this.abortToIdle()
+    try {
+      const st = await this.dnloadBlock(new Uint8Array([0x92]).buffer, 0, signal)
+      if (st.status !== 0) throw new DfuStatusError("DFUSe READ UNPROTECT", st)
+    } catch (e) {
+      if (!(e instanceof DfuTransportError && e.disconnected)) throw e
+    }
+    this.onEvent({ type: "mass-erase" })
+  }
+
+  /** Read back `length` bytes starting at `addr` */
+  async dfuseRead(addr: number, length: number, xferSize: number, signal?: AbortSignal) {
+    await this.dfuseSetAddress(addr, signal)
+    return this.do_upload(xferSize, length, 2, signal)
+  }
+
+  /** Leave DFU mode: zero-length DNLOAD after pointing at the vector table to boot from */
+  async dfuseLeave(addr: number) {
+    await this.dfuseSetAddress(addr)
+    await this.sendFinalBlock(2)
+  }
+
+  // ---- descriptors ----
+  /** Read the full configuration descriptor (header + all sub-descriptors) */
+  async readConfigurationDescriptor(): Promise<DataView> {
+    const GET_DESCRIPTOR = 0x06
+    const DT_CONFIGURATION = 0x02
+    const wValue = (DT_CONFIGURATION << 8) | this.settings.configuration.configurationValue
+
+    // Read config header to get total length
+    const first = await this.device.controlTransferIn(
+      { requestType: "standard", recipient: "device", request: GET_DESCRIPTOR, value: wValue, index: 0 },
+      4,
+    )
+    if (first.status !== "ok") throw new DfuTransportError(`GET_DESCRIPTOR failed: ${first.status}`, false)
+    const wTotalLength = first.data!.getUint16(2, true)
+
+    // Read full configuration descriptor
+    const full = await this.device.controlTransferIn(
+      { requestType: "standard", recipient: "device", request: GET_DESCRIPTOR, value: wValue, index: 0 },
+      wTotalLength,
+    )
+    if (full.status !== "ok") throw new DfuTransportError(`GET_DESCRIPTOR failed: ${full.status}`, false)
+    return full.data!
+  }
+
+  /** DFU Functional descriptor of this interface/alt, or null if the device does not report one */
+  async getFunctionalDescriptor(): Promise<DfuFunctionalDescriptor | null> {
+    const intf = parseConfigurationDescriptor(await this.readConfigurationDescriptor()).find(
+      (d) =>
+        d.bInterfaceNumber === this.settings.interface.interfaceNumber &&
+        d.bAlternateSetting === this.settings.alternate.alternateSetting &&
+        d.bInterfaceClass === 0xfe &&
+        d.bInterfaceSubClass === 0x01 &&
+        d.bInterfaceProtocol === this.settings.alternate.interfaceProtocol,
+    )
+    return intf?.functional ?? null
+  }
+
+  /** wTransferSize from the DFU Functional descriptor, 2048 if not found */
+  async getTransferSize(): Promise<number> {
+    this.functional ??= await this.getFunctionalDescriptor()
+    return this.attributes.transferSize
+  }
+}
+
+/** ---------- Descriptor parsing ---------- */
+export type DfuFunctionalDescriptor = {
+  bmAttributes: number
+  wDetachTimeOut: number
+  wTransferSize: number
+  bcdDFUVersion: number
+}
+
+/** bcdDFUVersion of a DFUSe device */
+export const DFUSE_VERSION = 0x011a
+
+/** The ST system bootloader's functional descriptor: can download, upload and will detach */
+const ST_FUNCTIONAL: DfuFunctionalDescriptor = {
+  bmAttributes: 0x0b,
+  wDetachTimeOut: 255,
+  wTransferSize: 2048,
+  bcdDFUVersion: DFUSE_VERSION,
+}
+
+/** The functional descriptor's bmAttributes and fields, decoded */
+export type DfuAttributes = {
+  canDownload: boolean
+  canUpload: boolean
+  /** Stays in DFU mode after manifestation and can report whether it succeeded */
+  manifestationTolerant: boolean
+  /** Detaches by itself after DETACH or manifestation; otherwise the host has to reset the bus */
+  willDetach: boolean
+  /** How long the device waits for that bus reset after DETACH */
+  detachTimeoutMs: number
+  transferSize: number
+  /** bcdDFUVersion: 0x0110 for DFU 1.1, 0x011a for ST's DFUSe */
+  dfuVersion: number
+}
+
+export const decodeAttributes = (func: DfuFunctionalDescriptor): DfuAttributes => ({
+  canDownload: (func.bmAttributes & 0x01) !== 0,
+  canUpload: (func.bmAttributes & 0x02) !== 0,
+  manifestationTolerant: (func.bmAttributes & 0x04) !== 0,
+  willDetach: (func.bmAttributes & 0x08) !== 0,
+  detachTimeoutMs: func.wDetachTimeOut,
+  transferSize: func.wTransferSize || ST_FUNCTIONAL.wTransferSize,
+  dfuVersion: func.bcdDFUVersion,
+})
+
+export type InterfaceDescriptor = {
+  bInterfaceNumber: number
+  bAlternateSetting: number
+  bInterfaceClass: number
+  bInterfaceSubClass: number
+  bInterfaceProtocol: number
+  iInterface: number
+  /** Only present on DFU interfaces */
+  functional?: DfuFunctionalDescriptor
+}
+
+const DT_INTERFACE = 0x04
+const DT_DFU_FUNCTIONAL = 0x21
+
+export const parseFunctionalDescriptor = (data: DataView, offset = 0): DfuFunctionalDescriptor => ({
+  bmAttributes: data.getUint8(offset + 2),
+  wDetachTimeOut: data.getUint16(offset + 3, true),
+  wTransferSize: data.getUint16(offset + 5, true),
+  // DFU 1.0 devices may send the 7-byte form without bcdDFUVersion
+  bcdDFUVersion: data.getUint8(offset) >= 9 ? data.getUint16(offset + 7, true) : 0x0100,
+})
+
+/**
+ * Walk a configuration descriptor and collect its interfaces, attaching the functional descriptor
+ * to DFU ones. It describes the whole interface, so alternates listed before it share it: ST's
+ * bootloader sends a single one after its last alternate.
+ */
+export const parseConfigurationDescriptor = (data: DataView): InterfaceDescriptor[] => {
+  const interfaces: InterfaceDescriptor[] = []
+  let current: InterfaceDescriptor | undefined
+  let offset = data.getUint8(0) // skip config header (9 bytes)
+
+  while (offset + 2 <= data.byteLength) {
+    const bLength = data.getUint8(offset)
+    const bType = data.getUint8(offset + 1)
+    if (bLength < 2 || offset + bLength > data.byteLength) break
+
+    if (bType === DT_INTERFACE) {
+      current = {
+        bInterfaceNumber: data.getUint8(offset + 2),
+        bAlternateSetting: data.getUint8(offset + 3),
+        bInterfaceClass: data.getUint8(offset + 5),
+        bInterfaceSubClass: data.getUint8(offset + 6),
+        bInterfaceProtocol: data.getUint8(offset + 7),
+        iInterface: data.getUint8(offset + 8),
+      }
+      interfaces.push(current)
+    } else if (bType === DT_DFU_FUNCTIONAL && current?.bInterfaceClass === 0xfe && current.bInterfaceSubClass === 0x01) {
+      current.functional = parseFunctionalDescriptor(data, offset)
+    }
+
+    offset += bLength
+  }
+
+  for (const intf of interfaces) {
+    if (intf.bInterfaceClass !== 0xfe || intf.bInterfaceSubClass !== 0x01 || intf.functional) continue
+    intf.functional = interfaces.find(
+      (other) => other.bInterfaceNumber === intf.bInterfaceNumber && other.functional,
+    )?.functional
+  }
+  return interfaces
+}
+
+/** ---------- Helpers to pick DFUSe alt/interface ---------- */
+/** bInterfaceProtocol of a DFU interface: exposed next to the application, or by the bootloader */
+export const DFU_PROTOCOL = { runtime: 0x01, dfu: 0x02 } as const
+
+export const findDfuInterfaces = (device: DfuTransport, mode: keyof typeof DFU_PROTOCOL = "dfu"): DfuSettings[] => {
+  const matches: DfuSettings[] = []
+  for (const conf of device.configurations || []) {
+    for (const intf of conf.interfaces || []) {
+      for (const alt of intf.alternates || []) {
+        if (
+          alt.interfaceClass === 0xfe &&
+          alt.interfaceSubclass === 0x01 &&
+          alt.interfaceProtocol === DFU_PROTOCOL[mode]
+        ) {
+          matches.push({ configuration: conf, interface: intf, alternate: alt, name: alt.interfaceName })
+        }
+      }
+    }
+  }
+  return matches
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest"
+import { buildDfuseFile, dfuCrc32, dfuseImages, parseDfuseFile } from "@/lib/dfuse-file"
+
+const bytes = (length: number, seed: number) => Uint8Array.from({ length }, (_, i) => (i * seed) & 0xff).buffer
+
+const images = [
+  { address: 0x08004000, data: bytes(3000, 7) },
+  { address: 0x08000000, data: bytes(1200, 3) },
+]
+
+describe("DfuSe files", () => {
+  it("uses the DFU suffix CRC, which is CRC-32 without the final inversion", () => {
+    expect(dfuCrc32(new TextEncoder().encode("123456789"))).toBe(~0xcbf43926 >>> 0)
+  })
+
+  it("round-trips elements through build and parse", () => {
+    const file = parseDfuseFile(buildDfuseFile(images))
+
+    expect(file).toMatchObject({ vendorId: 0x0483, productId: 0xdf11 })
+    expect(file.targets).toHaveLength(1)
+    expect(file.targets[0]).toMatchObject({ alternateSetting: 0, name: "Internal Flash" })
+    // Elements are stored in address order
+    expect(file.targets[0].elements.map((e) => e.address)).toEqual([0x08000000, 0x08004000])
+    expect(new Uint8Array(file.targets[0].elements[1].data)).toEqual(new Uint8Array(images[0].data))
+  })
+
+  it("lays out prefix, target and suffix like dfu-util expects", () => {
+    const dfu = new Uint8Array(buildDfuseFile(images))
+    const view = new DataView(dfu.buffer)
+    const text = (from: number, to: number) => String.fromCharCode(...dfu.subarray(from, to))
+
+    expect(text(0, 5)).toBe("DfuSe")
+    expect(view.getUint32(6, true)).toBe(dfu.length - 16)
+    expect(text(11, 17)).toBe("Target")
+    expect(view.getUint32(11 + 270, true)).toBe(2)
+    expect(text(dfu.length - 8, dfu.length - 5)).toBe("UFD")
+    expect(view.getUint16(dfu.length - 10, true)).toBe(0x011a)
+  })
+
+  it("turns internal-flash elements into images named after the file", () => {
+    expect(dfuseImages(parseDfuseFile(buildDfuseFile(images)), "fw.dfu").map((img) => img.name)).toEqual([
+      "fw.dfu @ 0x08000000",
+      "fw.dfu @ 0x08004000",
+    ])
+  })
+
+  it("rejects a corrupted file by its CRC", () => {
+    const dfu = new Uint8Array(buildDfuseFile(images))
+    dfu[400] ^= 0xff
+    expect(() => parseDfuseFile(dfu.buffer)).toThrow(/CRC mismatch/)
+  })
+
+  it("rejects files for another USB device", () => {
+    const dfu = new Uint8Array(buildDfuseFile(images))
+    const view = new DataView(dfu.buffer)
+    view.setUint16(dfu.length - 12, 0x1209, true)
+    view.setUint32(dfu.length - 4, dfuCrc32(dfu.subarray(0, dfu.length - 4)), true)
+    expect(() => parseDfuseFile(dfu.buffer)).toThrow(/not the ST bootloader/)
+  })
+
+  it("rejects a plain binary", () => {
+    expect(() => parseDfuseFile(bytes(4096, 1))).toThrow(/missing UFD suffix/)
+  })
+})
@@ -0,0 +1,173 @@
+import type { FirmwareImage } from "@/lib/firmware-catalog"
+import { hex } from "@/lib/utils"
+
+/** ---------- ST DfuSe .dfu container (UM0391) ---------- */
+// prefix "DfuSe" v1 | targets: "Target" prefix + elements (address, size, data) | DFU suffix with CRC32
+// This is what dfu-util -D and STM32CubeProgrammer take.
+
+const PREFIX_SIZE = 11
+const TARGET_PREFIX_SIZE = 274
+const ELEMENT_HEADER_SIZE = 8
+const SUFFIX_SIZE = 16
+const TARGET_NAME_SIZE = 255
+
+export const ST_VID = 0x0483
+export const ST_DFU_PID = 0xdf11
+/** Suffix wildcard: the file is not tied to one vendor or product */
+const ANY_ID = 0xffff
+
+export type DfuseElement = { address: number; data: ArrayBuffer }
+
+export type DfuseTarget = {
+  alternateSetting: number
+  name?: string
+  elements: DfuseElement[]
+}
+
+export type DfuseFile = {
+  vendorId: number
+  productId: number
+  bcdDevice: number
+  targets: DfuseTarget[]
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+/** The DFU suffix CRC: reflected CRC-32 with 0xffffffff preset and no final inversion */
+export const dfuCrc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  return crc >>> 0
+}
+
+const ascii = (bytes: Uint8Array) => String.fromCharCode(...bytes)
+
+const readName = (bytes: Uint8Array) => {
+  const end = bytes.indexOf(0)
+  return ascii(end === -1 ? bytes : bytes.subarray(0, end))
+}
+
+/** Parse and validate a .dfu file. Throws on a bad signature, CRC, length or a non-ST-DFU suffix */
+export const parseDfuseFile = (buffer: ArrayBuffer): DfuseFile => {
+  const bytes = new Uint8Array(buffer)
+  const view = new DataView(buffer)
+  if (bytes.length < PREFIX_SIZE + SUFFIX_SIZE) throw new Error(`DfuSe file too short (${bytes.length} bytes)`)
+
+  // Suffix first: it is what dfu-util checks before anything else
+  const s = bytes.length - SUFFIX_SIZE
+  if (ascii(bytes.subarray(s + 8, s + 11)) !== "UFD" || bytes[s + 11] !== SUFFIX_SIZE) {
+    throw new Error("Not a DFU file: missing UFD suffix")
+  }
+  const stored = view.getUint32(s + 12, true)
+  const crc = dfuCrc32(bytes.subarray(0, bytes.length - 4))
+  if (crc !== stored) throw new Error(`DfuSe file CRC mismatch: computed ${hex(crc)}, file says ${hex(stored)}`)
+
+  const bcdDevice = view.getUint16(s, true)
+  const productId = view.getUint16(s + 2, true)
+  const vendorId = view.getUint16(s + 4, true)
+  const bcdDFU = view.getUint16(s + 6, true)
+  if (bcdDFU !== 0x011a) throw new Error(`Not a DfuSe file: bcdDFU is ${hex(bcdDFU, 4)}, expected 0x011A`)
+  if ((vendorId !== ST_VID && vendorId !== ANY_ID) || (productId !== ST_DFU_PID && productId !== ANY_ID)) {
+    throw new Error(
+      `DfuSe file is for USB device ${hex(vendorId, 4)}:${hex(productId, 4)}, not the ST bootloader (${hex(ST_VID, 4)}:${hex(ST_DFU_PID, 4)})`,
+    )
+  }
+
+  if (ascii(bytes.subarray(0, 5)) !== "DfuSe" || bytes[5] !== 0x01) throw new Error("Not a DfuSe v1 file")
+  const imageSize = view.getUint32(6, true)
+  if (imageSize !== s) throw new Error(`DfuSe prefix says ${imageSize} bytes, file holds ${s} before the suffix`)
+
+  const targetCount = bytes[10]
+  const targets: DfuseTarget[] = []
+  let off = PREFIX_SIZE
+  for (let t = 0; t < targetCount; t++) {
+    if (off + TARGET_PREFIX_SIZE > s || ascii(bytes.subarray(off, off + 6)) !== "Target") {
+      throw new Error(`DfuSe target ${t} is missing or malformed`)
+    }
+    const alternateSetting = bytes[off + 6]
+    const named = view.getUint32(off + 7, true) !== 0
+    const name = named ? readName(bytes.subarray(off + 11, off + 11 + TARGET_NAME_SIZE)) : undefined
+    const targetSize = view.getUint32(off + 266, true)
+    const elementCount = view.getUint32(off + 270, true)
+    off += TARGET_PREFIX_SIZE
+
+    const end = off + targetSize
+    if (end > s) throw new Error(`DfuSe target ${t} runs past the end of the file`)
+    const elements: DfuseElement[] = []
+    for (let e = 0; e < elementCount; e++) {
+      if (off + ELEMENT_HEADER_SIZE > end) throw new Error(`DfuSe target ${t} element ${e} is truncated`)
+      const address = view.getUint32(off, true)
+      const size = view.getUint32(off + 4, true)
+      off += ELEMENT_HEADER_SIZE
+      if (off + size > end) throw new Error(`DfuSe target ${t} element ${e} (${hex(address)}) is truncated`)
+      elements.push({ address, data: buffer.slice(off, off + size) })
+      off += size
+    }
+    if (off !== end) throw new Error(`DfuSe target ${t} size does not match its elements`)
+    targets.push({ alternateSetting, name, elements })
+  }
+  if (off !== s) throw new Error("DfuSe file has trailing data after its targets")
+
+  return { vendorId, productId, bcdDevice, targets }
+}
+
+/** Elements of the internal-flash target (alternate 0) as images to flash, in file order */
+export const dfuseImages = (file: DfuseFile, fileName: string): FirmwareImage[] => {
+  const others = file.targets.filter((t) => t.alternateSetting !== 0)
+  if (others.length > 0) {
+    throw new Error(
+      `${fileName} also targets alternate setting ${others.map((t) => t.alternateSetting).join(", ")} - only internal flash (alternate 0) is supported`,
+    )
+  }
+  const images = file.targets.flatMap((t) => t.elements)
+  if (images.length === 0) throw new Error(`${fileName} contains no data`)
+  return images.map((el) => ({ name: `${fileName} @ ${hex(el.address)}`, address: el.address, data: el.data }))
+}
+
+/** Pack images into a single-target DfuSe file for the ST bootloader */
+export const buildDfuseFile = (images: Pick<FirmwareImage, "address" | "data">[], targetName = "Internal Flash") => {
+  const elements = [...images].sort((a, b) => a.address - b.address)
+  const targetSize = elements.reduce((n, el) => n + ELEMENT_HEADER_SIZE + el.data.byteLength, 0)
+  const imageSize = PREFIX_SIZE + TARGET_PREFIX_SIZE + targetSize
+  const bytes = new Uint8Array(imageSize + SUFFIX_SIZE)
+  const view = new DataView(bytes.buffer)
+  const putAscii = (s: string, at: number) => bytes.set(Array.from(s, (c) => c.charCodeAt(0) & 0x7f), at)
+
+  putAscii("DfuSe", 0)
+  bytes[5] = 0x01
+  view.setUint32(6, imageSize, true)
+  bytes[10] = 1
+
+  let off = PREFIX_SIZE
+  putAscii("Target", off)
+  bytes[off + 6] = 0
+  view.setUint32(off + 7, 1, true)
+  putAscii(targetName.slice(0, TARGET_NAME_SIZE - 1), off + 11)
+  view.setUint32(off + 266, targetSize, true)
+  view.setUint32(off + 270, elements.length, true)
+  off += TARGET_PREFIX_SIZE
+
+  for (const el of elements) {
+    view.setUint32(off, el.address, true)
+    view.setUint32(off + 4, el.data.byteLength, true)
+    bytes.set(new Uint8Array(el.data), off + ELEMENT_HEADER_SIZE)
+    off += ELEMENT_HEADER_SIZE + el.data.byteLength
+  }
+
+  view.setUint16(off, ANY_ID, true) // bcdDevice
+  view.setUint16(off + 2, ST_DFU_PID, true)
+  view.setUint16(off + 4, ST_VID, true)
+  view.setUint16(off + 6, 0x011a, true)
+  putAscii("UFD", off + 8)
+  bytes[off + 11] = SUFFIX_SIZE
+  view.setUint32(off + 12, dfuCrc32(bytes.subarray(0, bytes.length - 4)), true)
+  return bytes.buffer
+}
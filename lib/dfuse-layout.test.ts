@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_LAYOUT, layoutEnd, layoutStart, parseMemoryLayout, sectorsToErase } from "@/lib/dfuse-layout"
+
+const starts = (sectors: { start: number }[]) => sectors.map((s) => s.start)
+
+describe("parseMemoryLayout", () => {
+  it("expands the STM32F205 descriptor into its sectors", () => {
+    const layout = parseMemoryLayout("@Internal Flash /0x08000000/04*016Kg,01*064Kg,03*128Kg")
+
+    expect(layout.name).toBe("Internal Flash")
+    expect(starts(layout.sectors)).toEqual([
+      0x08000000, 0x08004000, 0x08008000, 0x0800c000, 0x08010000, 0x08020000, 0x08040000, 0x08060000,
+    ])
+    expect(layoutStart(layout)).toBe(0x08000000)
+    expect(layoutEnd(layout)).toBe(0x08080000)
+    expect(layout.sectors.every((s) => s.readable && s.erasable && s.writable)).toBe(true)
+    expect(layout).toEqual(DEFAULT_LAYOUT)
+  })
+
+  it("reads several regions, byte-sized segments and the access type of each", () => {
+    const layout = parseMemoryLayout("@Mixed /0x1FFFC000/01*016 e/0x08000000/02*016Ka")
+
+    expect(layout.sectors).toEqual([
+      { start: 0x1fffc000, end: 0x1fffc010, readable: true, erasable: false, writable: true },
+      { start: 0x08000000, end: 0x08004000, readable: true, erasable: false, writable: false },
+      { start: 0x08004000, end: 0x08008000, readable: true, erasable: false, writable: false },
+    ])
+  })
+
+  it("rejects malformed descriptors", () => {
+    expect(() => parseMemoryLayout("Internal Flash /0x08000000/04*016Kg")).toThrow(/Not a DFUSe memory layout/)
+    expect(() => parseMemoryLayout("@Internal Flash /0x08000000")).toThrow(/Malformed DFUSe memory layout/)
+    expect(() => parseMemoryLayout("@Internal Flash /zz/04*016Kg")).toThrow(/Bad region address "zz"/)
+    expect(() => parseMemoryLayout("@Internal Flash /0x08000000/04x016Kg")).toThrow(/Bad segment "04x016Kg"/)
+    expect(() => parseMemoryLayout("@Internal Flash /0x08000000/04*016Kh")).toThrow(/Bad segment "04\*016Kh"/)
+  })
+})
+
+describe("sectorsToErase", () => {
+  it("erases exactly the sectors a write touches, up to their boundaries", () => {
+    expect(starts(sectorsToErase(DEFAULT_LAYOUT, 0x08004000, 0x4000))).toEqual([0x08004000])
+    expect(starts(sectorsToErase(DEFAULT_LAYOUT, 0x08004000, 0x4001))).toEqual([0x08004000, 0x08008000])
+    expect(starts(sectorsToErase(DEFAULT_LAYOUT, 0x08003fff, 2))).toEqual([0x08000000, 0x08004000])
+    expect(starts(sectorsToErase(DEFAULT_LAYOUT, 0x08060000, 0x20000))).toEqual([0x08060000])
+    expect(sectorsToErase(DEFAULT_LAYOUT, 0x08004000, 0)).toEqual([])
+  })
+
+  it("refuses writes that leave the layout or cross a gap between regions", () => {
+    expect(() => sectorsToErase(DEFAULT_LAYOUT, 0x08060000, 0x20001)).toThrow(
+      "0x08060000..0x08080001 is outside Internal Flash (0x08000000..0x08080000)",
+    )
+    expect(() => sectorsToErase(DEFAULT_LAYOUT, 0x07fffffc, 8)).toThrow(/is outside Internal Flash/)
+
+    const split = parseMemoryLayout("@Split /0x08000000/01*016Kg/0x08008000/01*016Kg")
+    expect(() => sectorsToErase(split, 0x08000000, 0xc000)).toThrow(/is outside Split/)
+  })
+
+  it("refuses read-only and non-erasable sectors", () => {
+    const locked = parseMemoryLayout("@Locked /0x08000000/01*016Ka,01*016Ke,01*016Kg")
+
+    expect(() => sectorsToErase(locked, 0x08000000, 0x100)).toThrow("Sector 0x08000000 of Locked is read-only")
+    expect(() => sectorsToErase(locked, 0x08004000, 0x100)).toThrow("Sector 0x08004000 of Locked is not erasable")
+    expect(starts(sectorsToErase(locked, 0x08008000, 0x100))).toEqual([0x08008000])
+  })
+})
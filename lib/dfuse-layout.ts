@@ -0,0 +1,93 @@
+import { hex } from "@/lib/utils"
+
+/** ---------- DFUSe memory-layout descriptor ---------- */
+// ST's bootloader names each alternate setting after the memory it exposes, e.g.
+//   @Internal Flash  /0x08000000/04*016Kg,01*064Kg,07*128Kg
+// Each segment is <count>*<size><unit><type>; the type letter a..g is a bit mask of
+// readable (1), erasable (2) and writable (4).
+
+export type FlashSector = {
+  start: number
+  /** Exclusive */
+  end: number
+  readable: boolean
+  erasable: boolean
+  writable: boolean
+}
+
+export type MemoryLayout = {
+  name: string
+  sectors: FlashSector[]
+}
+
+const UNITS: Record<string, number> = { " ": 1, B: 1, K: 1024, M: 1024 * 1024 }
+
+export const parseMemoryLayout = (descriptor: string): MemoryLayout => {
+  const trimmed = descriptor.trim()
+  if (!trimmed.startsWith("@")) throw new Error(`Not a DFUSe memory layout: "${descriptor}"`)
+
+  const parts = trimmed.slice(1).split("/")
+  if (parts.length < 3 || parts.length % 2 === 0) throw new Error(`Malformed DFUSe memory layout: "${descriptor}"`)
+
+  const sectors: FlashSector[] = []
+  for (let i = 1; i < parts.length; i += 2) {
+    let addr = Number.parseInt(parts[i].trim(), 16)
+    if (!Number.isFinite(addr)) throw new Error(`Bad region address "${parts[i]}" in "${descriptor}"`)
+
+    for (const seg of parts[i + 1].split(",")) {
+      const m = /^\s*(\d+)\*(\d+)\s?([ BKM]?)([a-g])\s*$/.exec(seg)
+      if (!m) throw new Error(`Bad segment "${seg}" in "${descriptor}"`)
+      const count = Number.parseInt(m[1], 10)
+      const size = Number.parseInt(m[2], 10) * UNITS[m[3] || " "]
+      const type = m[4].charCodeAt(0) - "a".charCodeAt(0) + 1
+      for (let n = 0; n < count; n++) {
+        sectors.push({
+          start: addr,
+          end: addr + size,
+          readable: (type & 1) !== 0,
+          erasable: (type & 2) !== 0,
+          writable: (type & 4) !== 0,
+        })
+        addr += size
+      }
+    }
+  }
+
+  return { name: parts[0].trim(), sectors }
+}
+
+/** Internal flash of the STM32F205RE on white/grey pandas, used when the device does not describe itself */
+export const DEFAULT_LAYOUT = parseMemoryLayout("@Internal Flash /0x08000000/04*016Kg,01*064Kg,03*128Kg")
+
+export const layoutStart = (layout: MemoryLayout) => layout.sectors[0]?.start ?? 0
+export const layoutEnd = (layout: MemoryLayout) => layout.sectors[layout.sectors.length - 1]?.end ?? 0
+
+export const formatLayout = (layout: MemoryLayout) =>
+  `${layout.name}: ${layout.sectors.length} sectors, ${hex(layoutStart(layout))}..${hex(layoutEnd(layout))}`
+
+/**
+ * The minimal set of sectors to erase before writing `length` bytes at `addr`.
+ * Refuses ranges that leave the layout, cross a gap or touch a read-only sector.
+ */
+export const sectorsToErase = (layout: MemoryLayout, addr: number, length: number): FlashSector[] => {
+  const end = addr + length
+  const touched = layout.sectors.filter((s) => s.start < end && s.end > addr)
+
+  let covered = addr
+  for (const s of touched) {
+    if (s.start > covered) break
+    covered = Math.max(covered, s.end)
+  }
+  if (length > 0 && covered < end) {
+    throw new Error(
+      `${hex(addr)}..${hex(end)} is outside ${layout.name} (${hex(layoutStart(layout))}..${hex(layoutEnd(layout))})`,
+    )
+  }
+
+  for (const s of touched) {
+    if (!s.writable || !s.erasable) {
+      throw new Error(`Sector ${hex(s.start)} of ${layout.name} is ${s.writable ? "not erasable" : "read-only"}`)
+    }
+  }
+  return touched
+}
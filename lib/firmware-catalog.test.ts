@@ -0,0 +1,63 @@
+import { readFile } from "node:fs/promises"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import {
+  catalogFileUrl,
+  defaultVariant,
+  fetchVariant,
+  firmwareCatalog,
+  FirmwareNotFoundError,
+  type FirmwareVariant,
+} from "@/lib/firmware-catalog"
+import { APP_ADDRESS, BOOTSTUB_ADDRESS } from "@/lib/stm32-image"
+
+/** Serve catalog URLs from the checked-in prebuilt-binaries, answering 404 for anything missing */
+const serveRepository = () =>
+  vi.stubGlobal("fetch", async (url: string) => {
+    try {
+      return new Response(await readFile(url.slice(firmwareCatalog.baseUrl.length)))
+    } catch {
+      return new Response("404: Not Found", { status: 404, statusText: "Not Found" })
+    }
+  })
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe("firmware catalog", () => {
+  it("parses catalog.json into variants with numeric load addresses", () => {
+    expect(firmwareCatalog.variants.map((v) => v.id)).toEqual(["sunny-basic", "sunny-advanced"])
+    expect(defaultVariant.id).toBe("sunny-basic")
+    for (const variant of firmwareCatalog.variants) {
+      expect(variant.files.map((f) => f.address)).toEqual([APP_ADDRESS, BOOTSTUB_ADDRESS])
+      for (const file of variant.files) expect(file.sha256).toMatch(/^[0-9a-f]{64}$/)
+    }
+  })
+
+  it("fetches every listed file and checks it against the catalog", async () => {
+    serveRepository()
+
+    for (const variant of firmwareCatalog.variants) {
+      const images = await fetchVariant(variant)
+      expect(images.map((img) => img.address)).toEqual([APP_ADDRESS, BOOTSTUB_ADDRESS])
+      expect(images.map((img) => img.data.byteLength)).toEqual(variant.files.map((f) => f.size))
+    }
+  })
+
+  it("reports a file the repository does not have", async () => {
+    serveRepository()
+    const [app, bootstub] = defaultVariant.files
+    const variant: FirmwareVariant = {
+      ...defaultVariant,
+      files: [app, { ...bootstub, path: "prebuilt-binaries/sunny-basic/missing.bin" }],
+    }
+
+    const error = await fetchVariant(variant).catch((e) => e)
+    expect(error).toBeInstanceOf(FirmwareNotFoundError)
+    expect(error.path).toBe("prebuilt-binaries/sunny-basic/missing.bin")
+    expect(error.message).toBe(
+      `SunnyPilot Basic bootstub.panda.bin not found in repository. Please check if the file exists at: ${error.path}`,
+    )
+    expect(catalogFileUrl(variant.files[1])).toBe(`${firmwareCatalog.baseUrl}${error.path}`)
+  })
+})
@@ -0,0 +1,105 @@
+import catalogJson from "@/prebuilt-binaries/catalog.json"
+import { checkIntegrity } from "@/lib/integrity"
+
+/** Panda hardware types a variant is built for */
+export type PandaHardware = "white" | "grey" | "black"
+
+export type CatalogFile = {
+  name: string
+  /** Path relative to the catalog's baseUrl */
+  path: string
+  /** Load address in MCU flash */
+  address: number
+  size: number
+  sha256: string
+}
+
+export type FirmwareVariant = {
+  id: string
+  name: string
+  recommended?: boolean
+  repo: string
+  branch: string
+  description: string
+  hardware: PandaHardware[]
+  releaseDate: string
+  /** Listed in flash order */
+  files: CatalogFile[]
+}
+
+/** A binary ready to be written at its load address */
+export type FirmwareImage = {
+  name: string
+  address: number
+  data: ArrayBuffer
+  /** Hex SHA-256 of `data` */
+  sha256?: string
+}
+
+type RawCatalog = {
+  baseUrl: string
+  variants: (Omit<FirmwareVariant, "files" | "hardware"> & {
+    hardware: string[]
+    files: (Omit<CatalogFile, "address"> & { address: string })[]
+  })[]
+}
+
+const parseCatalog = (raw: RawCatalog) => ({
+  baseUrl: raw.baseUrl,
+  variants: raw.variants.map(
+    (v): FirmwareVariant => ({
+      ...v,
+      hardware: v.hardware as PandaHardware[],
+      files: v.files.map((f) => {
+        const address = Number.parseInt(f.address, 16)
+        if (!Number.isFinite(address)) throw new Error(`catalog: ${v.id}/${f.name} has invalid address ${f.address}`)
+        return { ...f, address }
+      }),
+    }),
+  ),
+})
+
+export const firmwareCatalog = parseCatalog(catalogJson as RawCatalog)
+
+export const findVariant = (id: string) => firmwareCatalog.variants.find((v) => v.id === id)
+
+export const defaultVariant = firmwareCatalog.variants.find((v) => v.recommended) ?? firmwareCatalog.variants[0]
+
+/** Whether `variant` is built for a panda reporting `hwType` (see lib/panda.ts) */
+export const supportsHardware = (variant: FirmwareVariant, hwType: string) =>
+  (variant.hardware as string[]).includes(hwType)
+
+export const catalogFileUrl = (file: CatalogFile) => firmwareCatalog.baseUrl + file.path
+
+export const sourceUrl = (variant: FirmwareVariant) => `https://github.com/${variant.repo}/tree/${variant.branch}`
+
+/** The catalog lists a file the firmware repository does not serve (HTTP 404) */
+export class FirmwareNotFoundError extends Error {
+  path: string
+
+  constructor(message: string, path: string) {
+    super(message)
+    this.name = new.target.name
+    this.path = path
+  }
+}
+
+/** Fetch every file of a variant, in flash order. Rejects any file whose size or SHA-256 differs from the catalog */
+export const fetchVariant = async (variant: FirmwareVariant): Promise<FirmwareImage[]> =>
+  Promise.all(
+    variant.files.map(async (file) => {
+      const res = await fetch(catalogFileUrl(file))
+      if (!res.ok) {
+        if (res.status === 404) {
+          throw new FirmwareNotFoundError(
+            `${variant.name} ${file.name} not found in repository. Please check if the file exists at: ${file.path}`,
+            file.path,
+          )
+        }
+        throw new Error(`Failed to fetch ${variant.name} ${file.name}: ${res.status} ${res.statusText}`)
+      }
+      const data = await res.arrayBuffer()
+      const sha256 = await checkIntegrity(file.name, data, file)
+      return { name: file.name, address: file.address, data, sha256 }
+    }),
+  )
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_LAYOUT } from "@/lib/dfuse-layout"
+import { planFlash } from "@/lib/flash"
+import { loadFirmwareFile, mergeSegments, parseElf, parseIntelHex } from "@/lib/firmware-formats"
+import { APP_ADDRESS } from "@/lib/stm32-image"
+
+const bytes = (length: number, seed: number) => Uint8Array.from({ length }, (_, i) => (i * seed + 1) & 0xff)
+
+const record = (type: number, offset: number, data: ArrayLike<number>) => {
+  const body = [data.length, offset >> 8, offset & 0xff, type, ...Array.from(data)]
+  const checksum = -body.reduce((a, b) => a + b, 0) & 0xff
+  return ":" + [...body, checksum].map((b) => b.toString(16).padStart(2, "0").toUpperCase()).join("")
+}
+
+/** Intel HEX the way objcopy writes it: 16-byte data records, a linear base per 64K, start address, EOF */
+const toHex = (address: number, data: Uint8Array, entry?: number) => {
+  const lines: string[] = []
+  let base = -1
+  for (let off = 0; off < data.length; off += 16) {
+    const addr = address + off
+    if (addr >>> 16 !== base) {
+      base = addr >>> 16
+      lines.push(record(0x04, 0, [base >> 8, base & 0xff]))
+    }
+    lines.push(record(0x00, addr & 0xffff, data.subarray(off, Math.min(off + 16, data.length))))
+  }
+  if (entry !== undefined) {
+    lines.push(record(0x05, 0, [entry >>> 24, (entry >> 16) & 0xff, (entry >> 8) & 0xff, entry & 0xff]))
+  }
+  lines.push(record(0x01, 0, []))
+  return lines.join("\n") + "\n"
+}
+
+/** A minimal ELF32 ARM executable with the given program headers and their file contents */
+const toElf = (entry: number, segments: { type?: number; paddr: number; data: Uint8Array; memsz?: number }[]) => {
+  const phoff = 52
+  let offset = phoff + segments.length * 32
+  const size = offset + segments.reduce((n, s) => n + s.data.length, 0)
+  const out = new Uint8Array(size)
+  const view = new DataView(out.buffer)
+  out.set([0x7f, 0x45, 0x4c, 0x46, 1, 1, 1])
+  view.setUint16(16, 2, true) // ET_EXEC
+  view.setUint16(18, 40, true) // EM_ARM
+  view.setUint32(24, entry, true)
+  view.setUint32(28, phoff, true)
+  view.setUint16(42, 32, true)
+  view.setUint16(44, segments.length, true)
+  segments.forEach((s, i) => {
+    const ph = phoff + i * 32
+    view.setUint32(ph, s.type ?? 1, true)
+    view.setUint32(ph + 4, offset, true)
+    view.setUint32(ph + 8, s.paddr, true)
+    view.setUint32(ph + 12, s.paddr, true)
+    view.setUint32(ph + 16, s.data.length, true)
+    view.setUint32(ph + 20, s.memsz ?? s.data.length, true)
+    out.set(s.data, offset)
+    offset += s.data.length
+  })
+  return out.buffer
+}
+
+/** Something that passes the vector-table check at APP_ADDRESS */
+const appImage = () => {
+  const data = bytes(0x3000, 5)
+  new DataView(data.buffer).setUint32(0, 0x20001000, true)
+  new DataView(data.buffer).setUint32(4, APP_ADDRESS + 0x101, true)
+  return data
+}
+
+describe("Intel HEX", () => {
+  it("follows extended linear addresses across a 64K boundary into one segment", () => {
+    const data = bytes(0x300, 3)
+    const parsed = parseIntelHex(toHex(0x0800ff00, data, 0x08004101))
+
+    expect(parsed.entry).toBe(0x08004101)
+    expect(parsed.segments).toHaveLength(1)
+    expect(parsed.segments[0].address).toBe(0x0800ff00)
+    expect(new Uint8Array(parsed.segments[0].data)).toEqual(data)
+  })
+
+  it("keeps separate segments for separate regions", () => {
+    const text = toHex(0x08000000, bytes(64, 1)) + toHex(0x08004000, bytes(32, 2))
+    const parsed = parseIntelHex(text.replace(/:00000001FF\n/, ""))
+    expect(parsed.segments.map((s) => [s.address, s.data.byteLength])).toEqual([
+      [0x08000000, 64],
+      [0x08004000, 32],
+    ])
+  })
+
+  it("rejects a bad checksum and a truncated file", () => {
+    const good = toHex(0x08004000, bytes(32, 1))
+    const corrupted = good.replace(/^(:10400000)(.)/m, (_, head, c) => head + (c === "0" ? "1" : "0"))
+    expect(() => parseIntelHex(corrupted)).toThrow(/line 2: checksum mismatch/)
+    expect(() => parseIntelHex(good.replace(":00000001FF\n", ""))).toThrow(/no end-of-file record/)
+  })
+})
+
+describe("ELF", () => {
+  it("places PT_LOAD segments at their physical address and skips empty ones", () => {
+    const text = bytes(0x100, 1)
+    const data = bytes(0x20, 2)
+    const elf = toElf(0x08004101, [
+      { paddr: 0x08004000, data: text },
+      { paddr: 0x08004100, data }, // .data load image right after .text
+      { paddr: 0x20000000, data: new Uint8Array(0), memsz: 0x400 }, // .bss
+      { type: 4, paddr: 0, data: bytes(8, 3) }, // PT_NOTE
+    ])
+    const parsed = parseElf(elf)
+
+    expect(parsed.entry).toBe(0x08004101)
+    expect(parsed.segments).toHaveLength(1)
+    expect(new Uint8Array(parsed.segments[0].data)).toEqual(new Uint8Array([...text, ...data]))
+  })
+
+  it("refuses non-ARM and non-ELF input", () => {
+    const elf = new Uint8Array(toElf(0, [{ paddr: 0x08004000, data: bytes(16, 1) }]))
+    new DataView(elf.buffer).setUint16(18, 62, true)
+    expect(() => parseElf(elf.buffer)).toThrow(/not ARM/)
+    expect(() => parseElf(bytes(64, 1).buffer)).toThrow(/Not an ELF file/)
+  })
+})
+
+describe("loadFirmwareFile", () => {
+  it("feeds HEX and ELF segments into the flash plan at their own addresses", async () => {
+    const app = appImage()
+    for (const [name, data] of [
+      ["panda.hex", new TextEncoder().encode(toHex(APP_ADDRESS, app)).buffer],
+      ["panda.elf", toElf(APP_ADDRESS + 0x101, [{ paddr: APP_ADDRESS, data: app }])],
+    ] as const) {
+      const images = loadFirmwareFile(name, data)!
+      expect(images.map((img) => img.name)).toEqual([`${name} @ 0x08004000`])
+      const plan = await planFlash(images, DEFAULT_LAYOUT, () => {})
+      expect(plan.steps[0].sectors).toEqual([APP_ADDRESS])
+    }
+  })
+
+  it("leaves raw binaries to the caller", () => {
+    expect(loadFirmwareFile("panda.bin", bytes(16, 1).buffer)).toBeNull()
+  })
+
+  it("rejects overlapping segments", () => {
+    expect(() =>
+      mergeSegments([
+        { address: 0x100, data: bytes(16, 1).buffer },
+        { address: 0x108, data: bytes(16, 1).buffer },
+      ]),
+    ).toThrow(/overlap at 0x00000108/)
+  })
+})
@@ -0,0 +1,153 @@
+import { dfuseImages, parseDfuseFile } from "@/lib/dfuse-file"
+import type { FirmwareImage } from "@/lib/firmware-catalog"
+import { hex } from "@/lib/utils"
+
+/** ---------- Address-tagged firmware inputs (Intel HEX, ELF, DfuSe) ---------- */
+
+export type FirmwareSegment = { address: number; data: ArrayBuffer }
+
+export type ParsedFirmware = {
+  segments: FirmwareSegment[]
+  /** Entry point from the start-address record or e_entry, if the file has one */
+  entry?: number
+}
+
+/** Sort segments and join the ones that touch; overlapping segments are an error */
+export const mergeSegments = (segments: FirmwareSegment[]): FirmwareSegment[] => {
+  const sorted = segments.filter((s) => s.data.byteLength > 0).sort((a, b) => a.address - b.address)
+  const merged: { address: number; parts: ArrayBuffer[]; end: number }[] = []
+  for (const seg of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && seg.address < last.end) {
+      throw new Error(`Segments overlap at ${hex(seg.address)}`)
+    }
+    if (last && seg.address === last.end) {
+      last.parts.push(seg.data)
+      last.end += seg.data.byteLength
+    } else {
+      merged.push({ address: seg.address, parts: [seg.data], end: seg.address + seg.data.byteLength })
+    }
+  }
+  return merged.map(({ address, parts, end }) => {
+    const out = new Uint8Array(end - address)
+    let off = 0
+    for (const p of parts) {
+      out.set(new Uint8Array(p), off)
+      off += p.byteLength
+    }
+    return { address, data: out.buffer }
+  })
+}
+
+/** ---------- Intel HEX ---------- */
+const HEX_RECORD = {
+  DATA: 0x00,
+  EOF: 0x01,
+  EXT_SEGMENT: 0x02,
+  START_SEGMENT: 0x03,
+  EXT_LINEAR: 0x04,
+  START_LINEAR: 0x05,
+} as const
+
+export const parseIntelHex = (text: string): ParsedFirmware => {
+  const segments: FirmwareSegment[] = []
+  let base = 0
+  let entry: number | undefined
+  let sawEof = false
+
+  const lines = text.split(/\r?\n/)
+  for (const [i, raw] of lines.entries()) {
+    const line = raw.trim()
+    if (!line) continue
+    const where = `Intel HEX line ${i + 1}`
+    if (sawEof) throw new Error(`${where}: data after the end-of-file record`)
+    if (!/^:([0-9A-Fa-f]{2})+$/.test(line) || line.length < 11) throw new Error(`${where}: not a HEX record`)
+
+    const bytes = Uint8Array.from(line.slice(1).match(/../g)!, (b) => Number.parseInt(b, 16))
+    const length = bytes[0]
+    if (bytes.length !== length + 5) throw new Error(`${where}: record length ${length} does not match its data`)
+    if (bytes.reduce((sum, b) => sum + b, 0) & 0xff) throw new Error(`${where}: checksum mismatch`)
+
+    const offset = (bytes[1] << 8) | bytes[2]
+    const type = bytes[3]
+    const data = bytes.subarray(4, 4 + length)
+
+    switch (type) {
+      case HEX_RECORD.DATA:
+        segments.push({ address: (base + offset) >>> 0, data: data.slice().buffer })
+        break
+      case HEX_RECORD.EOF:
+        sawEof = true
+        break
+      case HEX_RECORD.EXT_SEGMENT:
+        base = ((data[0] << 8) | data[1]) * 16
+        break
+      case HEX_RECORD.EXT_LINEAR:
+        base = ((data[0] << 8) | data[1]) * 0x10000
+        break
+      case HEX_RECORD.START_SEGMENT:
+        entry = ((data[0] << 8) | data[1]) * 16 + ((data[2] << 8) | data[3])
+        break
+      case HEX_RECORD.START_LINEAR:
+        entry = new DataView(data.buffer, data.byteOffset).getUint32(0, false)
+        break
+      default:
+        throw new Error(`${where}: unknown record type ${hex(type, 2)}`)
+    }
+  }
+  if (!sawEof) throw new Error("Intel HEX file has no end-of-file record - it may be truncated")
+  return { segments: mergeSegments(segments), entry }
+}
+
+/** ---------- ELF32 (ARM, little-endian) ---------- */
+const PT_LOAD = 1
+const EM_ARM = 40
+
+/** PT_LOAD segments placed at their physical (load) address, which is where they live in flash */
+export const parseElf = (buffer: ArrayBuffer): ParsedFirmware => {
+  const bytes = new Uint8Array(buffer)
+  const view = new DataView(buffer)
+  if (bytes.length < 52 || bytes[0] !== 0x7f || String.fromCharCode(...bytes.subarray(1, 4)) !== "ELF") {
+    throw new Error("Not an ELF file")
+  }
+  if (bytes[4] !== 1 || bytes[5] !== 1) throw new Error("Only 32-bit little-endian ELF files are supported")
+  const machine = view.getUint16(18, true)
+  if (machine !== EM_ARM) throw new Error(`ELF file is for machine ${machine}, not ARM`)
+
+  const entry = view.getUint32(24, true)
+  const phoff = view.getUint32(28, true)
+  const phentsize = view.getUint16(42, true)
+  const phnum = view.getUint16(44, true)
+  if (phnum === 0) throw new Error("ELF file has no program headers - link it as an executable")
+  if (phoff + phnum * phentsize > bytes.length) throw new Error("ELF program headers run past the end of the file")
+
+  const segments: FirmwareSegment[] = []
+  for (let i = 0; i < phnum; i++) {
+    const ph = phoff + i * phentsize
+    if (view.getUint32(ph, true) !== PT_LOAD) continue
+    const offset = view.getUint32(ph + 4, true)
+    const paddr = view.getUint32(ph + 12, true)
+    const filesz = view.getUint32(ph + 16, true)
+    if (filesz === 0) continue // .bss and friends: nothing to flash
+    if (offset + filesz > bytes.length) throw new Error(`ELF segment ${i} runs past the end of the file`)
+    segments.push({ address: paddr, data: buffer.slice(offset, offset + filesz) })
+  }
+  if (segments.length === 0) throw new Error("ELF file has no loadable segments")
+  return { segments: mergeSegments(segments), entry }
+}
+
+/**
+ * Images to flash from an address-tagged firmware file, chosen by extension; null for a raw
+ * .bin, whose load address has to come from elsewhere.
+ */
+export const loadFirmwareFile = (fileName: string, data: ArrayBuffer): FirmwareImage[] | null => {
+  const ext = fileName.toLowerCase().split(".").pop()
+  let segments: FirmwareSegment[]
+  if (ext === "dfu") return dfuseImages(parseDfuseFile(data), fileName)
+  else if (ext === "hex" || ext === "ihex") segments = parseIntelHex(new TextDecoder().decode(data)).segments
+  else if (ext === "elf" || ext === "axf") segments = parseElf(data).segments
+  else return null
+
+  if (segments.length === 0) throw new Error(`${fileName} contains no data`)
+  return segments.map((s) => ({ name: `${fileName} @ ${hex(s.address)}`, address: s.address, data: s.data }))
+}
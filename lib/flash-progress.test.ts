@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest"
+import { formatProgress, ProgressTracker, type FlashProgress } from "@/lib/flash-progress"
+
+const tracker = () => {
+  let now = 0
+  const seen: FlashProgress[] = []
+  const t = new ProgressTracker(
+    (p) => seen.push(p),
+    () => now,
+  )
+  return { t, seen, advance: (ms: number) => (now += ms) }
+}
+
+describe("ProgressTracker", () => {
+  it("weights phases and keeps counting across images instead of restarting at 0", () => {
+    const { t, seen, advance } = tracker()
+    t.start([
+      { kind: "write", label: "Writing panda.bin", bytes: 4096 },
+      { kind: "write", label: "Writing bootstub.panda.bin", bytes: 4096 },
+    ])
+
+    t.next()
+    advance(1000)
+    t.handle({ type: "download", done: 2048, total: 4096 })
+    expect(seen.at(-1)).toMatchObject({ percent: 25, phase: "Writing panda.bin", step: 1, steps: 2 })
+
+    t.handle({ type: "download", done: 4096, total: 4096 })
+    t.next()
+    t.handle({ type: "download", done: 0, total: 4096 })
+    expect(seen.at(-1)!.percent).toBe(50)
+  })
+
+  it("completes erase and reboot phases from the device's events", () => {
+    const { t, seen } = tracker()
+    t.start([
+      { kind: "erase", label: "Erasing 0x08004000", bytes: 0x4000 },
+      { kind: "reboot", label: "Rebooting", bytes: 0 },
+    ])
+
+    t.next()
+    t.handle({ type: "set-address", address: 0x08004000 })
+    expect(seen.at(-1)!.percent).toBe(0)
+    t.handle({ type: "erase", address: 0x08004000 })
+    t.next()
+    t.handle({ type: "manifest" })
+    expect(seen.at(-1)!.percent).toBe(100)
+  })
+
+  it("derives throughput and time left from the pace so far", () => {
+    const { t, seen, advance } = tracker()
+    t.start([{ kind: "write", label: "Writing panda.bin", bytes: 40960 }])
+    t.next()
+    advance(2000)
+    t.handle({ type: "download", done: 10240, total: 40960 })
+
+    expect(seen.at(-1)).toMatchObject({ bytesPerSecond: 5120, etaSeconds: 6 })
+    expect(formatProgress(seen.at(-1)!)).toBe("Writing panda.bin (1/1) · 5.0 KB/s · ~6s left")
+  })
+
+  it("counts a retried transfer's bytes once per send and lets the bar fall back with it", () => {
+    const { t, seen, advance } = tracker()
+    t.start([{ kind: "write", label: "Writing panda.bin", bytes: 4096 }])
+    t.next()
+    advance(1000)
+    t.handle({ type: "download", done: 2048, total: 4096 })
+    t.handle({ type: "download", done: 0, total: 4096 })
+    t.handle({ type: "download", done: 2048, total: 4096 })
+
+    expect(seen.at(-1)).toMatchObject({ percent: 50, bytesPerSecond: 4096 })
+  })
+
+  it("drops work that turned out to be unnecessary", () => {
+    const { t, seen } = tracker()
+    t.start([
+      { kind: "compare", label: "Comparing 0x08004000", bytes: 0x4000 },
+      { kind: "erase", label: "Erasing 0x08004000", bytes: 0x4000 },
+      { kind: "write", label: "Writing panda.bin", bytes: 0x4000 },
+      { kind: "reboot", label: "Rebooting", bytes: 0 },
+    ])
+    t.next()
+    t.handle({ type: "upload", done: 0x4000, total: 0x4000 })
+    t.reschedule([{ kind: "reboot", label: "Rebooting", bytes: 0 }])
+
+    expect(seen.at(-1)).toMatchObject({ step: 1, steps: 2 })
+    expect(seen.at(-1)!.percent).toBe(66)
+  })
+})
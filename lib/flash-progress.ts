@@ -0,0 +1,156 @@
+import type { DfuEvent } from "@/lib/dfu"
+
+/** ---------- Whole-job progress (backup, erase, write, verify, reboot) ---------- */
+// Each phase is weighted by a rough cost in "written byte" units, so a sector erase or a
+// read-back moves the bar about as much as the time it takes on an STM32F2/F4.
+
+export type PhaseKind = "backup" | "compare" | "erase" | "write" | "verify" | "reboot"
+
+export type ProgressPhase = {
+  kind: PhaseKind
+  label: string
+  /** Bytes the phase covers: moved over USB, or the sector size for an erase */
+  bytes: number
+}
+
+export type FlashProgress = {
+  /** 0..100 over the whole job */
+  percent: number
+  phase: string
+  /** What the current phase does; unset before the first one starts */
+  kind?: PhaseKind
+  /** 1-based position of the current phase */
+  step: number
+  steps: number
+  /** Bytes moved over USB per second, averaged over the job so far */
+  bytesPerSecond: number
+  /** Seconds left at the pace so far; unset until some work is done */
+  etaSeconds?: number
+}
+
+/** Relative cost per byte; uploads do not wait for flash programming, erases wait longest per call */
+const COST: Record<PhaseKind, number> = {
+  backup: 0.25,
+  compare: 0.25,
+  verify: 0.25,
+  write: 1,
+  erase: 0.3,
+  reboot: 0,
+}
+/** The reboot has no bytes to count; weight it like a small write */
+const REBOOT_COST = 2048
+
+const weight = (phase: ProgressPhase) => (phase.kind === "reboot" ? REBOOT_COST : phase.bytes * COST[phase.kind])
+
+/**
+ * Turns DFU events into progress for a known list of phases. The flash pipeline calls next()
+ * as it enters each phase; byte counts and completion come from the device's own events.
+ */
+export class ProgressTracker {
+  private phases: ProgressPhase[] = []
+  private current = -1
+  /** Fraction of the current phase that is done */
+  private fraction = 0
+  private bytesMoved = 0
+  private lastDone = 0
+  private startedAt = 0
+  private onChange: (progress: FlashProgress) => void
+  private now: () => number
+
+  constructor(onChange: (progress: FlashProgress) => void, now = () => Date.now()) {
+    this.onChange = onChange
+    this.now = now
+  }
+
+  start(phases: ProgressPhase[]) {
+    this.phases = phases
+    this.current = -1
+    this.fraction = 0
+    this.bytesMoved = 0
+    this.startedAt = this.now()
+  }
+
+  /** Enter the next phase; the previous one counts as done */
+  next() {
+    if (this.current >= this.phases.length - 1) throw new Error("Progress: no phase left to start")
+    this.current++
+    this.fraction = 0
+    this.lastDone = 0
+    this.emit()
+  }
+
+  /** Replace the phases after the current one, once the job knows what is left */
+  reschedule(rest: ProgressPhase[]) {
+    this.phases = [...this.phases.slice(0, this.current + 1), ...rest]
+    this.emit()
+  }
+
+  /** Mark everything done, e.g. when the device rebooted before reporting it */
+  finish() {
+    this.current = this.phases.length - 1
+    this.fraction = 1
+    this.emit()
+  }
+
+  handle(event: DfuEvent) {
+    const phase = this.phases[this.current]
+    if (!phase) return
+    switch (event.type) {
+      case "download":
+      case "upload":
+        // A retry restarts at 0; only count bytes that actually went over the wire
+        this.bytesMoved += Math.max(0, event.done - this.lastDone)
+        this.lastDone = event.done
+        if (phase.kind !== "erase" && phase.kind !== "reboot" && event.total > 0) {
+          this.fraction = Math.min(1, event.done / event.total)
+        }
+        break
+      case "erase":
+      case "mass-erase":
+        if (phase.kind === "erase") this.fraction = 1
+        break
+      case "manifest":
+        if (phase.kind === "reboot") this.fraction = 1
+        break
+      case "set-address":
+        return
+    }
+    this.emit()
+  }
+
+  snapshot(): FlashProgress {
+    const total = this.phases.reduce((n, p) => n + weight(p), 0)
+    const before = this.phases.slice(0, Math.max(0, this.current)).reduce((n, p) => n + weight(p), 0)
+    const phase = this.phases[this.current]
+    const done = before + (phase ? weight(phase) * this.fraction : 0)
+    const elapsed = (this.now() - this.startedAt) / 1000
+    return {
+      percent: total ? Math.min(100, Math.floor((done / total) * 100)) : 0,
+      phase: phase?.label ?? "Starting",
+      kind: phase?.kind,
+      step: this.current + 1,
+      steps: this.phases.length,
+      bytesPerSecond: elapsed > 0 ? Math.round(this.bytesMoved / elapsed) : 0,
+      etaSeconds: done > 0 && elapsed > 0 ? Math.round((elapsed * (total - done)) / done) : undefined,
+    }
+  }
+
+  private emit() {
+    this.onChange(this.snapshot())
+  }
+}
+
+const formatRate = (bytesPerSecond: number) =>
+  bytesPerSecond >= 1024 ? `${(bytesPerSecond / 1024).toFixed(1)} KB/s` : `${bytesPerSecond} B/s`
+
+const formatEta = (seconds: number) =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`
+
+export const formatProgress = (p: FlashProgress) =>
+  [
+    `${p.phase} (${p.step}/${p.steps})`,
+    p.bytesPerSecond ? formatRate(p.bytesPerSecond) : null,
+    p.etaSeconds !== undefined && p.percent < 100 ? `~${formatEta(p.etaSeconds)} left` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ")
@@ -0,0 +1,410 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { DfuDevice, findDfuInterfaces } from "@/lib/dfu"
+import {
+  DfuCancelledError,
+  DfuStateError,
+  DfuStatusError,
+  DfuTransportError,
+  DfuVerifyError,
+} from "@/lib/dfu-errors"
+import { SimulatedDfuseDevice, type FaultRule, type SimulatorOptions } from "@/lib/dfu-simulator"
+import { DEFAULT_LAYOUT } from "@/lib/dfuse-layout"
+import { flashFirmware, ImageValidationError, planFlash, restoreFlash, verifyRegion } from "@/lib/flash"
+import type { FlashProgress } from "@/lib/flash-progress"
+import { APP_ADDRESS, BOOTSTUB_ADDRESS } from "@/lib/stm32-image"
+
+const { STATE, STATUS } = DfuDevice
+
+/** A minimal image with a valid vector table for the region and a recognisable body */
+const makeImage = (address: number, size: number, seed: number) => {
+  const bytes = new Uint8Array(size)
+  for (let i = 8; i < size; i++) bytes[i] = (i * seed + 1) & 0xff
+  const view = new DataView(bytes.buffer)
+  view.setUint32(0, 0x20001000, true)
+  view.setUint32(4, (address + 0x101) | 1, true)
+  return bytes.buffer
+}
+
+const app = makeImage(APP_ADDRESS, 45152, 7)
+const bootstub = makeImage(BOOTSTUB_ADDRESS, 14224, 3)
+const images = [
+  { name: "panda.bin", address: APP_ADDRESS, data: app },
+  { name: "bootstub.panda.bin", address: BOOTSTUB_ADDRESS, data: bootstub },
+]
+
+const log = () => {}
+
+const connect = async (opts: SimulatorOptions = {}) => {
+  const sim = new SimulatedDfuseDevice(opts)
+  const dev = new DfuDevice(sim, findDfuInterfaces(sim)[0])
+  await dev.open()
+  return { sim, dev }
+}
+
+const flash = async (dev: DfuDevice) => flashFirmware(dev, await planFlash(images, DEFAULT_LAYOUT, log), { log })
+
+/** Match the GETSTATUS that completes the DNLOAD of data block `block` */
+const statusAfterBlock = (block: number): FaultRule["match"] => {
+  let last = -1
+  return (req) => {
+    if (req.name === "DNLOAD") last = req.block
+    return req.name === "GETSTATUS" && req.state === STATE.dfuDNLOAD_SYNC && last === block
+  }
+}
+
+const expectFlashed = (sim: SimulatedDfuseDevice) => {
+  expect(sim.readMemory(APP_ADDRESS, app.byteLength)).toEqual(new Uint8Array(app))
+  expect(sim.readMemory(BOOTSTUB_ADDRESS, bootstub.byteLength)).toEqual(new Uint8Array(bootstub))
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {})
+  vi.spyOn(console, "debug").mockImplementation(() => {})
+})
+
+describe("flashFirmware against the simulated ST bootloader", () => {
+  it("writes every image, verifies it and leaves DFU mode", async () => {
+    const { sim, dev } = await connect()
+    await flash(dev)
+
+    expectFlashed(sim)
+    expect(sim.isConnected).toBe(false)
+    expect(sim.events.at(-1)).toEqual({ type: "manifest", address: BOOTSTUB_ADDRESS })
+  })
+
+  it("erases only the sectors an image covers, then points the write at its load address", async () => {
+    const { sim, dev } = await connect()
+    await flash(dev)
+
+    const commands = sim.events.filter((e) => e.type === "erase" || e.type === "set-address" || e.type === "write")
+    const firstWrite = (address: number) => commands.findIndex((e) => e.type === "write" && e.address === address)
+
+    const appErase = commands.findIndex((e) => e.type === "erase" && e.address === 0x08004000)
+    expect(commands.slice(appErase, appErase + 4)).toEqual([
+      { type: "erase", address: 0x08004000 },
+      { type: "erase", address: 0x08008000 },
+      { type: "erase", address: 0x0800c000 },
+      { type: "set-address", address: APP_ADDRESS },
+    ])
+    expect(firstWrite(APP_ADDRESS)).toBe(appErase + 4)
+
+    const stubErase = commands.findIndex((e) => e.type === "erase" && e.address === 0x08000000)
+    expect(stubErase).toBeGreaterThan(firstWrite(APP_ADDRESS))
+    expect(commands[stubErase + 1]).toEqual({ type: "set-address", address: BOOTSTUB_ADDRESS })
+    expect(firstWrite(BOOTSTUB_ADDRESS)).toBe(stubErase + 2)
+
+    // Sector 4 (64K) and beyond are never touched by a 45 KB app
+    expect(sim.events.some((e) => e.type === "erase" && e.address >= 0x08010000)).toBe(false)
+    expect(sim.events.some((e) => e.type === "mass-erase")).toBe(false)
+  })
+
+  it("numbers data blocks from 2 and maps them to consecutive transfer-size strides", async () => {
+    const { sim, dev } = await connect()
+    await flash(dev)
+
+    const writes = sim.events.flatMap((e) => (e.type === "write" ? [e] : []))
+    const appWrites = writes.filter((w) => w.address >= APP_ADDRESS)
+    expect(appWrites.map((w) => w.block)).toEqual(Array.from({ length: 23 }, (_, i) => i + 2))
+    expect(appWrites.map((w) => w.address)).toEqual(appWrites.map((_, i) => APP_ADDRESS + i * 2048))
+    expect(appWrites.at(-1)!.length).toBe(45152 - 22 * 2048)
+
+    // Block 1 is never used; block 0 only carries DFUSe commands
+    expect(sim.dnloadBlocks).not.toContain(1)
+  })
+
+  it("hands over a full backup taken before anything is erased", async () => {
+    const before = new Uint8Array(DEFAULT_LAYOUT.sectors.at(-1)!.end - BOOTSTUB_ADDRESS)
+    for (let i = 0; i < before.length; i++) before[i] = i % 251
+    const { sim, dev } = await connect({ flash: before.buffer })
+
+    const onBackup = vi.fn()
+    await flashFirmware(dev, await planFlash(images, DEFAULT_LAYOUT, log), { log, backup: true, onBackup })
+
+    expect(onBackup).toHaveBeenCalledOnce()
+    expect(new Uint8Array(onBackup.mock.calls[0][0])).toEqual(before)
+    expect(sim.events.findIndex((e) => e.type === "read")).toBeLessThan(sim.events.findIndex((e) => e.type === "erase"))
+    expectFlashed(sim)
+  })
+
+  it("reports progress over the whole job, from the first erase to the reboot", async () => {
+    const { dev } = await connect()
+    const seen: FlashProgress[] = []
+    await flashFirmware(dev, await planFlash(images, DEFAULT_LAYOUT, log), { log, onProgress: (p) => seen.push(p) })
+
+    const percents = seen.map((p) => p.percent)
+    expect(percents).toEqual([...percents].sort((a, b) => a - b))
+    expect(seen[0].phase).toBe("Erasing 0x08004000")
+    expect(new Set(seen.map((p) => p.phase))).toContain("Verifying bootstub.panda.bin")
+    expect(seen.at(-1)).toMatchObject({ percent: 100, phase: "Rebooting", step: 9, steps: 9 })
+  })
+
+  it("restores a backup image over the whole flash", async () => {
+    const backup = new Uint8Array(DEFAULT_LAYOUT.sectors.at(-1)!.end - BOOTSTUB_ADDRESS).fill(0x5a)
+    const { sim, dev } = await connect()
+
+    await restoreFlash(dev, backup.buffer, DEFAULT_LAYOUT, { log })
+
+    expect(sim.readMemory(BOOTSTUB_ADDRESS, backup.length)).toEqual(backup)
+    expect(sim.isConnected).toBe(false)
+  })
+})
+
+describe("smart flashing", () => {
+  /** A simulator whose flash already holds `images`, reopened for a second pass */
+  const flashedDevice = async () => {
+    const { sim, dev } = await connect()
+    await flash(dev)
+    sim.reattach()
+    sim.events.length = 0
+    const again = new DfuDevice(sim, findDfuInterfaces(sim)[0])
+    await again.open()
+    return { sim, dev: again }
+  }
+
+  it("leaves a device that already holds the images untouched", async () => {
+    const { sim, dev } = await flashedDevice()
+    const result = await flashFirmware(dev, await planFlash(images, DEFAULT_LAYOUT, log), { log, smart: true })
+
+    expect(result).toEqual({ sectorsWritten: 0, sectorsSkipped: 4, verified: true })
+    expect(sim.events.filter((e) => e.type === "erase" || e.type === "write")).toEqual([])
+    expectFlashed(sim)
+  })
+
+  it("erases and rewrites only the sector that changed", async () => {
+    const { sim, dev } = await flashedDevice()
+    const changed = app.slice(0)
+    new Uint8Array(changed)[0x08008100 - APP_ADDRESS] ^= 0xff
+    const plan = await planFlash([{ ...images[0], data: changed }, images[1]], DEFAULT_LAYOUT, log)
+
+    const result = await flashFirmware(dev, plan, { log, smart: true })
+
+    expect(result).toEqual({ sectorsWritten: 1, sectorsSkipped: 3, verified: true })
+    expect(sim.events.filter((e) => e.type === "erase")).toEqual([{ type: "erase", address: 0x08008000 }])
+    expect(sim.readMemory(APP_ADDRESS, changed.byteLength)).toEqual(new Uint8Array(changed))
+  })
+
+  it("compares against the backup instead of reading the flash a second time", async () => {
+    const { sim, dev } = await connect()
+    const result = await flashFirmware(dev, await planFlash(images, DEFAULT_LAYOUT, log), {
+      log,
+      smart: true,
+      backup: true,
+    })
+
+    expect(result).toEqual({ sectorsWritten: 4, sectorsSkipped: 0, verified: true })
+    // One pass over the flash for the backup, none for the comparison
+    const firstErase = sim.events.findIndex((e) => e.type === "erase")
+    const read = sim.events.slice(0, firstErase).reduce((n, e) => n + (e.type === "read" ? e.length : 0), 0)
+    expect(read).toBe(DEFAULT_LAYOUT.sectors.at(-1)!.end - BOOTSTUB_ADDRESS)
+    expectFlashed(sim)
+  })
+})
+
+describe("flashFirmware under injected faults", () => {
+  it("treats a disconnect during manifestation as the expected reboot", async () => {
+    const { sim, dev } = await connect({
+      faults: [{ match: (req) => req.name === "DNLOAD" && req.length === 0, action: "disconnect" }],
+    })
+
+    await expect(flash(dev)).resolves.toEqual({ sectorsWritten: 4, sectorsSkipped: 0, verified: true })
+    expectFlashed(sim)
+    expect(sim.isConnected).toBe(false)
+  })
+
+  it("recovers from a STALL on GETSTATUS by rewriting the image from its start", async () => {
+    const { sim, dev } = await connect({ faults: [{ match: statusAfterBlock(5), action: "stall" }] })
+
+    await flash(dev)
+
+    expectFlashed(sim)
+    const appAttempts = sim.events.filter((e) => e.type === "set-address" && e.address === APP_ADDRESS)
+    expect(appAttempts.length).toBeGreaterThanOrEqual(2)
+    expect(sim.events).toContainEqual({ type: "fault", request: "GETSTATUS", action: "stall" })
+  })
+
+  it("retries after the bootloader reports errWRITE", async () => {
+    const { sim, dev } = await connect({
+      faults: [{ match: (req) => req.name === "DNLOAD" && req.block === 3, action: { status: STATUS.errWRITE } }],
+    })
+
+    await flash(dev)
+
+    expectFlashed(sim)
+    expect(sim.dnloadBlocks.filter((b) => b === 3).length).toBe(3) // failed app, retried app, bootstub
+  })
+
+  it("stops at the first failed erase", async () => {
+    const { sim, dev } = await connect({
+      faults: [{ match: (req) => req.command === 0x41, action: { status: STATUS.errERASE } }],
+    })
+
+    const error = await flash(dev).catch((e) => e)
+    expect(error).toBeInstanceOf(DfuStatusError)
+    expect(error).toMatchObject({ status: STATUS.errERASE, statusName: "errERASE" })
+    expect(error.message).toContain(`DFUSe ERASE failed: status=${STATUS.errERASE} (errERASE)`)
+    expect(sim.events.some((e) => e.type === "erase" || e.type === "write")).toBe(false)
+  })
+
+  it("gives up when the device is stuck in dfuERROR", async () => {
+    const { sim, dev } = await connect({
+      faults: [{ match: (req) => req.name === "ABORT", action: { status: STATUS.errUNKNOWN, sticky: true } }],
+    })
+
+    const error = await flash(dev).catch((e) => e)
+    expect(error).toBeInstanceOf(DfuStateError)
+    expect(error).toMatchObject({ state: STATE.dfuERROR, message: "Failed to return to IDLE, state=10" })
+    expect(sim.currentState).toBe(STATE.dfuERROR)
+    expect(sim.events.some((e) => e.type === "write")).toBe(false)
+  })
+
+  it("fails, rather than reporting success, when the device drops off mid-transfer", async () => {
+    const { sim, dev } = await connect({ faults: [{ match: statusAfterBlock(10), action: "disconnect" }] })
+
+    const error = await flash(dev).catch((e) => e)
+    expect(error).toBeInstanceOf(DfuTransportError)
+    expect(error.disconnected).toBe(true)
+    expect(sim.isConnected).toBe(false)
+  })
+
+  it("names the first address that does not read back as written", async () => {
+    const { dev } = await connect()
+
+    const error = await verifyRegion(dev, "panda.bin", APP_ADDRESS, app, 2048, log).catch((e) => e)
+    expect(error).toBeInstanceOf(DfuVerifyError)
+    expect(error.address).toBe(APP_ADDRESS)
+    expect(error.message).toMatch(/^Verification failed for panda.bin: first mismatch at offset 0x0/)
+  })
+
+  it("refuses to program flash that was not erased", async () => {
+    const { sim, dev } = await connect()
+    await dev.dfuseSetAddress(APP_ADDRESS)
+    await dev.do_download(2048, new Uint8Array(2048).fill(0x0f).buffer, 2, false)
+
+    // Clearing more bits is fine, setting any back to 1 needs an erase
+    await expect(dev.do_download(2048, new Uint8Array(2048).fill(0x01).buffer, 2, false)).resolves.toBeUndefined()
+    await expect(dev.do_download(2048, new Uint8Array(2048).fill(0xff).buffer, 2, false)).rejects.toMatchObject({
+      status: STATUS.errWRITE,
+    })
+    expect(sim.currentState).toBe(STATE.dfuERROR)
+  })
+})
+
+describe("cancelling a flash", () => {
+  it("stops at a block boundary, aborts to dfuIDLE and names the half-written sectors", async () => {
+    const { sim, dev } = await connect()
+    const controller = new AbortController()
+    dev.onEvent = (e) => {
+      if (e.type === "download" && e.done === 5 * 2048) controller.abort(new DfuCancelledError())
+    }
+
+    await expect(
+      flashFirmware(dev, await planFlash(images, DEFAULT_LAYOUT, log), { log, signal: controller.signal }),
+    ).rejects.toMatchObject({
+      name: "DfuCancelledError",
+      partialSectors: [
+        "0x08004000 (10240 of 16384 bytes written)",
+        "0x08008000 (erased, nothing written)",
+        "0x0800c000 (erased, nothing written)",
+      ],
+    })
+
+    expect(sim.currentState).toBe(STATE.dfuIDLE)
+    expect(sim.isConnected).toBe(true)
+    const writes = sim.events.flatMap((e) => (e.type === "write" ? [e.address] : []))
+    expect(writes).toEqual([0, 1, 2, 3, 4].map((i) => APP_ADDRESS + i * 2048))
+  })
+
+  it("lets a running erase finish and starts nothing after it", async () => {
+    const { sim, dev } = await connect()
+    const controller = new AbortController()
+    dev.onEvent = (e) => {
+      if (e.type === "erase") controller.abort(new DfuCancelledError())
+    }
+
+    await expect(
+      flashFirmware(dev, await planFlash(images, DEFAULT_LAYOUT, log), { log, signal: controller.signal }),
+    ).rejects.toThrow("Cancelled by user. Partially written sectors: 0x08004000 (erased, nothing written)")
+    expect(sim.events.filter((e) => e.type === "erase")).toHaveLength(1)
+    expect(sim.currentState).toBe(STATE.dfuIDLE)
+  })
+})
+
+describe("honouring the DFU functional descriptor", () => {
+  it("applies the descriptor ST sends after its last alternate to every alternate", async () => {
+    const { sim, dev } = await connect({ transferSize: 1024, bmAttributes: 0x0b })
+    expect(dev.settings.alternate.alternateSetting).toBe(0)
+    expect(dev.attributes).toMatchObject({ canUpload: true, manifestationTolerant: false, transferSize: 1024 })
+    expect(dev.isDfuse).toBe(true)
+
+    await flash(dev)
+    expect(sim.events.find((e) => e.type === "write")).toMatchObject({ length: 1024 })
+  })
+
+  it("writes without read-back on a device that cannot upload, and refuses a backup up front", async () => {
+    const { sim, dev } = await connect({ bmAttributes: 0x09 })
+    const plan = await planFlash(images, DEFAULT_LAYOUT, log)
+
+    await expect(flashFirmware(dev, plan, { log, backup: true })).rejects.toThrow(/cannot read flash back/)
+    expect(sim.events).toEqual([])
+
+    expect(await flashFirmware(dev, plan, { log })).toMatchObject({ verified: false })
+    expectFlashed(sim)
+    expect(sim.events.some((e) => e.type === "read")).toBe(false)
+  })
+
+  it("polls a manifestation tolerant device back to dfuIDLE instead of expecting it to leave", async () => {
+    const { sim, dev } = await connect({ bmAttributes: 0x0f })
+    await flash(dev)
+
+    expectFlashed(sim)
+    expect(sim.events).toContainEqual({ type: "manifest", address: 0x08000000 })
+    expect(sim.isConnected).toBe(true)
+    expect(sim.currentState).toBe(STATE.dfuIDLE)
+  })
+
+  it("resets the bus after manifestation for a device that waits for it", async () => {
+    const { sim, dev } = await connect({ bmAttributes: 0x03 })
+    await flash(dev)
+
+    expectFlashed(sim)
+    expect(sim.events.at(-1)).toEqual({ type: "reset" })
+    expect(sim.isConnected).toBe(false)
+  })
+
+  it("resets the bus after DETACH only for a device that will not detach by itself", async () => {
+    const willDetach = await connect({ bmAttributes: 0x0b })
+    await willDetach.dev.detach()
+    expect(willDetach.sim.events).not.toContainEqual({ type: "reset" })
+
+    const waitsForReset = await connect({ bmAttributes: 0x03 })
+    await waitsForReset.dev.detach()
+    expect(waitsForReset.sim.events).toContainEqual({ type: "reset" })
+  })
+})
+
+describe("planFlash", () => {
+  it("erases a sector shared by two segments only before the first of them", async () => {
+    const text = app.slice(0, 0x2000)
+    const data = app.slice(0x2000, 0x2400)
+    const plan = await planFlash(
+      [
+        { name: "text", address: APP_ADDRESS, data: text },
+        { name: "data", address: APP_ADDRESS + 0x2000, data },
+      ],
+      DEFAULT_LAYOUT,
+      log,
+    )
+    expect(plan.steps.map((s) => s.sectors)).toEqual([[APP_ADDRESS], []])
+
+    const { sim, dev } = await connect()
+    await flashFirmware(dev, plan, { log })
+    expect(sim.readMemory(APP_ADDRESS, 0x2400)).toEqual(new Uint8Array(app.slice(0, 0x2400)))
+  })
+
+  it("rejects an image that does not fit the device's flash before touching it", async () => {
+    const huge = makeImage(APP_ADDRESS, 0x80000, 1)
+    await expect(planFlash([{ name: "panda.bin", address: APP_ADDRESS, data: huge }], DEFAULT_LAYOUT, log)).rejects.toThrow(
+      ImageValidationError,
+    )
+  })
+})
@@ -0,0 +1,582 @@
+import type { DfuDevice, DfuEvent, DfuTransport } from "@/lib/dfu"
+import { DfuError, DfuTimeoutError, DfuTransportError, DfuVerifyError } from "@/lib/dfu-errors"
+import { layoutEnd, layoutStart, sectorsToErase, type FlashSector, type MemoryLayout } from "@/lib/dfuse-layout"
+import type { FirmwareImage } from "@/lib/firmware-catalog"
+import { ProgressTracker, type FlashProgress, type ProgressPhase } from "@/lib/flash-progress"
+import { sha256Hex } from "@/lib/integrity"
+import { checkImagePlan } from "@/lib/stm32-image"
+import { hex } from "@/lib/utils"
+
+export type Logger = (...args: unknown[]) => void
+
+/** ---------- Transfer retries ---------- */
+/**
+ * Write `data` at `addr`, restarting from the address on failure. DFUSe maps block n to
+ * addr + (n - 2) * wTransferSize, so every attempt uses the device's transfer size; a smaller
+ * block size would land the data at the wrong addresses. A device that left the bus is not
+ * retried: nothing it wrote can be trusted until it is reconnected and read back.
+ */
+export const flashWithRetry = async (
+  operation: string,
+  addr: number,
+  data: ArrayBuffer,
+  dev: DfuDevice,
+  transferSize: number,
+  log: Logger,
+  signal?: AbortSignal,
+  attempts = 3,
+) => {
+  let lastErr: unknown
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      log(`[v0] 🔄 Writing ${operation} (attempt ${attempt}/${attempts}, transfer size ${transferSize})...`)
+      log(`[v0] 📍 Setting address to ${hex(addr)}`)
+      await dev.dfuseSetAddress(addr, signal)
+      // Stay in DFU mode: the region is read back before the bootloader is told to leave
+      await dev.do_download(transferSize, data, /*firstBlock*/ 2, /*manifest*/ false, signal)
+      log(`[v0] ✅ Successfully flashed ${operation} (${data.byteLength} bytes)`)
+      return
+    } catch (e) {
+      // A cancel or timeout already returned the device to dfuIDLE; retrying would undo that
+      if (signal?.aborted) throw e
+      if (e instanceof DfuTransportError && e.disconnected) {
+        log(`[v0] 🔴 Device disconnected while writing ${operation}`)
+        throw e
+      }
+      lastErr = e
+      log(`[v0] ❌ Transfer failed: ${e instanceof Error ? e.message : String(e)}`)
+    }
+  }
+
+  throw lastErr
+}
+
+/** ---------- Read-back verification ---------- */
+/** Offset of the first byte where `actual` differs from `expected`, or -1 if they match */
+export const firstMismatch = (expected: ArrayBuffer, actual: ArrayBuffer) => {
+  const a = new Uint8Array(expected)
+  const b = new Uint8Array(actual)
+  const n = Math.min(a.byteLength, b.byteLength)
+  for (let i = 0; i < n; i++) {
+    if (a[i] !== b[i]) return i
+  }
+  return b.byteLength < a.byteLength ? b.byteLength : -1
+}
+
+export const verifyRegion = async (
+  dev: DfuDevice,
+  operation: string,
+  addr: number,
+  data: ArrayBuffer,
+  xferSize: number,
+  log: Logger,
+  signal?: AbortSignal,
+) => {
+  log(`[v0] 🔍 Verifying ${operation} at ${hex(addr)} (${data.byteLength} bytes)...`)
+  const readBack = await dev.dfuseRead(addr, data.byteLength, xferSize, signal)
+  const offset = firstMismatch(data, readBack)
+  if (offset !== -1) {
+    const expected = new Uint8Array(data)[offset]
+    const actual = offset < readBack.byteLength ? hex(new Uint8Array(readBack)[offset], 2) : "end of read-back"
+    throw new DfuVerifyError(
+      `Verification failed for ${operation}: first mismatch at offset ${hex(offset, 0)} (address ${hex(addr + offset)}), expected ${hex(expected, 2)}, read ${actual}`,
+      addr + offset,
+    )
+  }
+  log(`[v0] ✅ ${operation} verified: all ${data.byteLength} bytes match`)
+}
+
+/** ---------- Full flash backup ---------- */
+/** The ST bootloader's USB serial number is derived from the MCU's 96-bit unique ID */
+export const backupFileName = (device: DfuTransport, date = new Date()) => {
+  const uid = (device.serialNumber || "unknown-uid").replace(/[^0-9A-Za-z]/g, "")
+  const stamp = date.toISOString().replace(/[:.]/g, "-")
+  return `panda-backup-${uid}-${stamp}.bin`
+}
+
+/** ---------- Flash pipeline ---------- */
+export type FlashStep = FirmwareImage & {
+  sha256: string
+  /** The digest was checked against a known hash (the catalog) */
+  knownHash: boolean
+  /** Start addresses of the sectors to erase before writing */
+  sectors: number[]
+}
+
+export type FlashPlan = { layout: MemoryLayout; steps: FlashStep[] }
+
+export type FlashOptions = {
+  log: Logger
+  /** Short human-readable progress for the UI */
+  onStatus?: (message: string) => void
+  /** Weighted progress over the whole job, driven by the device's DFU events */
+  onProgress?: (progress: FlashProgress) => void
+  /** Read the whole flash before erasing anything and hand it over */
+  backup?: boolean
+  onBackup?: (image: ArrayBuffer) => void
+  /** Read the target sectors first and only erase and rewrite the ones that differ */
+  smart?: boolean
+  /** Cancels the job at the next block boundary, leaving the device in dfuIDLE */
+  signal?: AbortSignal
+}
+
+export type FlashResult = {
+  sectorsWritten: number
+  /** Sectors smart mode found already holding the target contents */
+  sectorsSkipped: number
+  /** Everything written was read back and compared; false when the device cannot upload */
+  verified: boolean
+}
+
+/**
+ * Run `operation` with a signal that fires after `timeoutMs` or when `parent` does. The DFU
+ * layer stops at the next block boundary and aborts to dfuIDLE, so a timed-out transfer does not
+ * keep running in the background.
+ */
+const withTimeout = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  name: string,
+  parent?: AbortSignal,
+): Promise<T> => {
+  const controller = new AbortController()
+  const onAbort = () => controller.abort(parent!.reason)
+  if (parent?.aborted) onAbort()
+  parent?.addEventListener("abort", onAbort)
+  const timer = setTimeout(() => controller.abort(new DfuTimeoutError(name, timeoutMs)), timeoutMs)
+  try {
+    return await operation(controller.signal)
+  } finally {
+    clearTimeout(timer)
+    parent?.removeEventListener("abort", onAbort)
+  }
+}
+
+/** Route the device's DFU events to `handlers` until the returned function is called */
+const listen = (dev: DfuDevice, ...handlers: ((event: DfuEvent) => void)[]) => {
+  const previous = dev.onEvent
+  dev.onEvent = (event) => {
+    previous(event)
+    for (const handle of handlers) handle(event)
+  }
+  return () => {
+    dev.onEvent = previous
+  }
+}
+
+/** What a job erased and wrote, from the device's own events, to tell what an interruption left behind */
+class WriteLog {
+  private erased = new Set<number>()
+  /** Bytes downloaded from each set-address pointer */
+  private written = new Map<number, number>()
+  private pointer: number | undefined
+
+  handle = (event: DfuEvent) => {
+    if (event.type === "erase") this.erased.add(event.address)
+    else if (event.type === "set-address") this.pointer = event.address
+    else if (event.type === "download" && this.pointer !== undefined) {
+      this.written.set(this.pointer, Math.max(this.written.get(this.pointer) ?? 0, event.done))
+    }
+  }
+
+  /** Erased sectors that do not yet hold all the bytes `images` put there */
+  partialSectors(layout: MemoryLayout, images: Pick<FirmwareImage, "address" | "data">[]) {
+    return layout.sectors
+      .filter((sector) => this.erased.has(sector.start))
+      .flatMap((sector) => {
+        let planned = 0
+        let written = 0
+        for (const img of images) {
+          const from = Math.max(img.address, sector.start)
+          const to = Math.min(img.address + img.data.byteLength, sector.end)
+          if (from >= to) continue
+          planned += to - from
+          for (const [start, length] of this.written) {
+            written += Math.max(0, Math.min(to, start + length) - Math.max(from, start))
+          }
+        }
+        if (written >= planned) return []
+        return [
+          written
+            ? `${hex(sector.start)} (${written} of ${planned} bytes written)`
+            : `${hex(sector.start)} (erased, nothing written)`,
+        ]
+      })
+  }
+}
+
+/** Name the sectors a failed job left half-written in its error, keeping the error's type */
+const withPartialReport = (e: unknown, partial: string[]) => {
+  if (partial.length === 0) return e
+  const report = `Partially written sectors: ${partial.join(", ")}`
+  if (e instanceof DfuError) {
+    e.partialSectors = partial
+    e.message = `${e.message}. ${report}`
+    return e
+  }
+  return new Error(`${e instanceof Error ? e.message : String(e)}. ${report}`)
+}
+
+const sectorSize = (layout: MemoryLayout, start: number) => {
+  const sector = layout.sectors.find((s) => s.start === start)
+  return sector ? sector.end - sector.start : 0
+}
+
+/** An image failed the vector-table or layout checks; nothing was sent to the device */
+export class ImageValidationError extends Error {
+  constructor(reason: string) {
+    super(`Image validation failed: ${reason}`)
+    this.name = new.target.name
+  }
+}
+
+/**
+ * Validate and hash every image and work out every erase up front, so an image that
+ * does not fit is refused before anything touches the device.
+ */
+export const planFlash = async (images: FirmwareImage[], layout: MemoryLayout, log: Logger): Promise<FlashPlan> => {
+  let sectors: number[][]
+  try {
+    for (const info of checkImagePlan(images, layoutEnd(layout))) {
+      log(
+        `[v0] 🧪 ${info.role} image OK: entry ${hex(info.resetHandler)}${info.initialSp ? `, SP ${hex(info.initialSp)}` : ""}${info.signedLength ? `, signed length ${info.signedLength}` : ""}`,
+      )
+    }
+    // Segments can share a sector: erase it once, before the first of them is written
+    const erased = new Set<number>()
+    sectors = images.map((img) =>
+      sectorsToErase(layout, img.address, img.data.byteLength)
+        .map((s) => s.start)
+        .filter((start) => {
+          if (erased.has(start)) return false
+          erased.add(start)
+          return true
+        }),
+    )
+  } catch (e) {
+    throw new ImageValidationError(e instanceof Error ? e.message : String(e))
+  }
+
+  // Catalog images were already checked on fetch; everything else is hashed here
+  const steps: FlashStep[] = []
+  for (const [i, img] of images.entries()) {
+    const knownHash = !!img.sha256
+    const sha256 = img.sha256 ?? (await sha256Hex(img.data))
+    log(`[v0] 🔒 ${img.name} SHA-256: ${sha256}${knownHash ? " (verified against catalog)" : " (no known hash)"}`)
+    steps.push({ ...img, sha256, knownHash, sectors: sectors[i] })
+  }
+  return { layout, steps }
+}
+
+/** Refuse what the device declares it cannot do before anything is erased */
+const checkCapabilities = (dev: DfuDevice, opts: Pick<FlashOptions, "backup" | "smart">) => {
+  const { canDownload, canUpload } = dev.attributes
+  if (!canDownload) throw new Error("This bootloader does not accept downloads (bitCanDnload is clear)")
+  if (!canUpload && (opts.backup || opts.smart)) {
+    throw new Error("This bootloader cannot read flash back (bitCanUpload is clear) - turn off backup and smart flash")
+  }
+}
+
+/** Optional backup, then erase and write each image, read everything back and leave DFU mode */
+export const flashFirmware = async (dev: DfuDevice, plan: FlashPlan, opts: FlashOptions): Promise<FlashResult> => {
+  checkCapabilities(dev, opts)
+  const tracker = new ProgressTracker(opts.onProgress ?? (() => {}))
+  const writes = new WriteLog()
+  const detach = listen(dev, (event) => tracker.handle(event), writes.handle)
+  try {
+    return await runFlash(dev, plan, opts, tracker)
+  } catch (e) {
+    throw withPartialReport(e, writes.partialSectors(plan.layout, plan.steps))
+  } finally {
+    detach()
+  }
+}
+
+/** The phases of a flash, in the order runFlash enters them */
+const flashPhases = (plan: FlashPlan, opts: FlashOptions, readBack: boolean): ProgressPhase[] => {
+  const { layout, steps } = plan
+  const phases: ProgressPhase[] = []
+  if (opts.backup) {
+    phases.push({ kind: "backup", label: "Backing up flash", bytes: layoutEnd(layout) - layoutStart(layout) })
+  }
+  if (opts.smart) {
+    const touched = touchedSectors(plan)
+    if (!opts.backup) {
+      for (const sector of touched) {
+        phases.push({ kind: "compare", label: `Comparing ${hex(sector.start)}`, bytes: sector.end - sector.start })
+      }
+    }
+    // Until the comparison is done, assume every sector changed
+    return [...phases, ...rewritePhases(plan, touched)]
+  }
+  for (const step of steps) {
+    for (const start of step.sectors) {
+      phases.push({ kind: "erase", label: `Erasing ${hex(start)}`, bytes: sectorSize(layout, start) })
+    }
+    phases.push({ kind: "write", label: `Writing ${step.name}`, bytes: step.data.byteLength })
+  }
+  for (const step of readBack ? steps : []) {
+    phases.push({ kind: "verify", label: `Verifying ${step.name}`, bytes: step.data.byteLength })
+  }
+  phases.push({ kind: "reboot", label: "Rebooting", bytes: 0 })
+  return phases
+}
+
+const runFlash = async (dev: DfuDevice, plan: FlashPlan, opts: FlashOptions, tracker: ProgressTracker) => {
+  const { log, onStatus = () => {}, signal } = opts
+  const { steps, layout } = plan
+  const flashStart = layoutStart(layout)
+  const flashSize = layoutEnd(layout) - flashStart
+  const readBack = dev.attributes.canUpload
+
+  onStatus("Starting firmware flash...")
+  log(`[v0] 🚀 Starting flash process — ${steps.map((s) => `${s.name}: ${s.data.byteLength} bytes`).join(", ")}`)
+  tracker.start(flashPhases(plan, opts, readBack))
+
+  // Read the device's transfer size
+  const transferSize = await dev.getTransferSize()
+  log(`[v0] 📋 Device transfer size: ${transferSize}`)
+
+  // ---- PHASE 0: Optional full flash backup ----
+  let backupImage: ArrayBuffer | undefined
+  if (opts.backup) {
+    log(`[v0] 💾 PHASE 0: Backing up internal flash (${flashSize} bytes from ${hex(flashStart)})`)
+    onStatus("Backing up device flash...")
+    tracker.next()
+    const image = await withTimeout(
+      (signal) => dev.dfuseRead(flashStart, flashSize, transferSize, signal),
+      Math.max(120000, flashSize / 4),
+      "Flash backup",
+      signal,
+    )
+    if (image.byteLength !== flashSize) {
+      throw new Error(`Backup incomplete: read ${image.byteLength} of ${flashSize} bytes`)
+    }
+    opts.onBackup?.(image)
+    backupImage = image
+  }
+
+  let result: FlashResult
+  if (opts.smart) {
+    result = await flashChangedSectors(dev, plan, transferSize, backupImage, opts, tracker)
+  } else {
+    // ---- PHASE 1..n: Erase and write each image at its load address ----
+    for (const [i, step] of steps.entries()) {
+      log(`[v0] 📝 PHASE ${i + 1}: Flashing ${step.name} (${step.data.byteLength} bytes) @ ${hex(step.address)}`)
+      onStatus(`Erasing ${step.name} area...`)
+      log(
+        step.sectors.length
+          ? `[v0] 🗑️ Erasing sectors (${step.sectors.map((a) => hex(a)).join(", ")})`
+          : "[v0] 🗑️ Sectors already erased for an earlier segment",
+      )
+
+      for (const addr of step.sectors) {
+        tracker.next()
+        await withTimeout((signal) => dev.dfuseErase(addr, signal), 10000, `Erase ${hex(addr)}`, signal)
+      }
+
+      onStatus(`Writing ${step.name}...`)
+      tracker.next()
+      await withTimeout(
+        (signal) => flashWithRetry(step.name, step.address, step.data, dev, transferSize, log, signal),
+        Math.max(30000, step.data.byteLength),
+        `Write ${step.name}`,
+        signal,
+      )
+    }
+
+    // ---- Read back and verify every region ----
+    if (readBack) log(`[v0] 📝 PHASE ${steps.length + 1}: Verifying flash contents`)
+    else log("[v0] ⚠️ This bootloader cannot read flash back - skipping read-back verification")
+    for (const step of readBack ? steps : []) {
+      onStatus(`Verifying ${step.name}...`)
+      tracker.next()
+      await withTimeout(
+        (signal) => verifyRegion(dev, step.name, step.address, step.data, transferSize, log, signal),
+        Math.max(30000, step.data.byteLength),
+        `Verify ${step.name}`,
+        signal,
+      )
+    }
+    result = {
+      sectorsWritten: steps.reduce((n, s) => n + s.sectors.length, 0),
+      sectorsSkipped: 0,
+      verified: readBack,
+    }
+  }
+
+  // Leave DFU mode and boot the new firmware; past this point there is nothing left to cancel
+  signal?.throwIfAborted()
+  tracker.next()
+  try {
+    log("[v0] 🚪 Leaving DFU mode...")
+    await dev.dfuseLeave(flashStart)
+    log("[v0] ✅ DFU leave command sent successfully")
+  } catch (e) {
+    log("[v0] 💡 DFU leave failed (normal) - device should reboot automatically")
+  }
+  tracker.finish()
+  return result
+}
+
+/** ---------- Differential flashing ---------- */
+const touchedSectors = (plan: FlashPlan) =>
+  plan.layout.sectors.filter((sector) =>
+    plan.steps.some((s) => s.address < sector.end && s.address + s.data.byteLength > sector.start),
+  )
+
+/** The part of each image that falls into `sector`; the rest of the sector stays erased */
+const sectorChunks = (plan: FlashPlan, sector: FlashSector) =>
+  plan.steps.flatMap((step) => {
+    const from = Math.max(step.address, sector.start)
+    const to = Math.min(step.address + step.data.byteLength, sector.end)
+    return from < to ? [{ step, from, data: step.data.slice(from - step.address, to - step.address) }] : []
+  })
+
+/** What `sector` holds after a full flash of `plan`: erased 0xff with every overlapping image on top */
+const sectorTarget = (plan: FlashPlan, sector: FlashSector) => {
+  const out = new Uint8Array(sector.end - sector.start).fill(0xff)
+  for (const { from, data } of sectorChunks(plan, sector)) out.set(new Uint8Array(data), from - sector.start)
+  return out.buffer
+}
+
+const rewritePhases = (plan: FlashPlan, sectors: FlashSector[]): ProgressPhase[] => [
+  ...sectors.flatMap((sector): ProgressPhase[] => [
+    { kind: "erase", label: `Erasing ${hex(sector.start)}`, bytes: sector.end - sector.start },
+    ...sectorChunks(plan, sector).flatMap(({ step, data }): ProgressPhase[] => [
+      { kind: "write", label: `Writing ${step.name} in ${hex(sector.start)}`, bytes: data.byteLength },
+      { kind: "verify", label: `Verifying ${step.name} in ${hex(sector.start)}`, bytes: data.byteLength },
+    ]),
+  ]),
+  { kind: "reboot", label: "Rebooting", bytes: 0 },
+]
+
+/**
+ * Compare every sector the plan touches with the device (or the backup just taken) and erase and
+ * rewrite only those that differ. Unchanged sectors were compared byte for byte, so only the
+ * rewritten ones are read back again.
+ */
+const flashChangedSectors = async (
+  dev: DfuDevice,
+  plan: FlashPlan,
+  transferSize: number,
+  current: ArrayBuffer | undefined,
+  opts: FlashOptions,
+  tracker: ProgressTracker,
+): Promise<FlashResult> => {
+  const { log, onStatus = () => {}, signal } = opts
+  const flashStart = layoutStart(plan.layout)
+  const touched = touchedSectors(plan)
+
+  log(`[v0] 🔎 PHASE 1: Comparing ${touched.length} sectors with the device`)
+  onStatus("Comparing flash contents...")
+  const changed: { sector: FlashSector; target: ArrayBuffer }[] = []
+  for (const sector of touched) {
+    const target = sectorTarget(plan, sector)
+    const size = sector.end - sector.start
+    if (!current) tracker.next()
+    const actual = current
+      ? current.slice(sector.start - flashStart, sector.end - flashStart)
+      : await withTimeout(
+          (signal) => dev.dfuseRead(sector.start, size, transferSize, signal),
+          Math.max(30000, size / 4),
+          `Read ${hex(sector.start)}`,
+          signal,
+        )
+    if (firstMismatch(target, actual) !== -1) changed.push({ sector, target })
+  }
+
+  const skipped = touched.length - changed.length
+  log(`[v0] ⏭️ ${skipped} of ${touched.length} sectors already up to date, ${changed.length} to rewrite`)
+  tracker.reschedule(rewritePhases(plan, changed.map((c) => c.sector)))
+
+  for (const [i, { sector, target }] of changed.entries()) {
+    const name = `sector ${hex(sector.start)}`
+    log(`[v0] 📝 PHASE ${i + 2}: Rewriting ${name} (${target.byteLength} bytes)`)
+    onStatus(`Rewriting ${name}...`)
+    tracker.next()
+    await withTimeout((signal) => dev.dfuseErase(sector.start, signal), 10000, `Erase ${hex(sector.start)}`, signal)
+
+    for (const { step, from, data: chunk } of sectorChunks(plan, sector)) {
+      tracker.next()
+      await withTimeout(
+        (signal) => flashWithRetry(`${step.name} in ${name}`, from, chunk, dev, transferSize, log, signal),
+        Math.max(30000, chunk.byteLength),
+        `Write ${step.name} in ${name}`,
+        signal,
+      )
+      tracker.next()
+      await withTimeout(
+        (signal) => verifyRegion(dev, `${step.name} in ${name}`, from, chunk, transferSize, log, signal),
+        Math.max(30000, chunk.byteLength),
+        `Verify ${step.name} in ${name}`,
+        signal,
+      )
+    }
+  }
+
+  return { sectorsWritten: changed.length, sectorsSkipped: skipped, verified: true }
+}
+
+/**
+ * Write a full flash image back to the start of flash, verify it if the device can upload, and
+ * reboot. Resolves with whether the image was read back.
+ */
+export const restoreFlash = async (dev: DfuDevice, image: ArrayBuffer, layout: MemoryLayout, opts: FlashOptions) => {
+  const { log, onStatus = () => {}, signal } = opts
+  checkCapabilities(dev, {})
+  const readBack = dev.attributes.canUpload
+  const flashStart = layoutStart(layout)
+  const sectors = sectorsToErase(layout, flashStart, image.byteLength)
+  const transferSize = await dev.getTransferSize()
+  log(`[v0] ♻️ Restoring backup image (${image.byteLength} bytes) to ${hex(flashStart)}`)
+
+  const tracker = new ProgressTracker(opts.onProgress ?? (() => {}))
+  const writes = new WriteLog()
+  const detach = listen(dev, (event) => tracker.handle(event), writes.handle)
+  tracker.start([
+    ...sectors.map((sector): ProgressPhase => ({
+      kind: "erase",
+      label: `Erasing ${hex(sector.start)}`,
+      bytes: sector.end - sector.start,
+    })),
+    { kind: "write", label: "Writing backup image", bytes: image.byteLength },
+    ...(readBack ? [{ kind: "verify" as const, label: "Verifying backup image", bytes: image.byteLength }] : []),
+    { kind: "reboot", label: "Rebooting", bytes: 0 },
+  ])
+  try {
+    onStatus("Erasing flash for restore...")
+    for (const sector of sectors) {
+      log(`[v0] 🗑️ Erasing sector ${hex(sector.start)}`)
+      tracker.next()
+      await dev.dfuseErase(sector.start, signal)
+    }
+
+    onStatus("Writing backup image...")
+    tracker.next()
+    await flashWithRetry("backup image", flashStart, image, dev, transferSize, log, signal)
+
+    if (readBack) {
+      onStatus("Verifying restored image...")
+      tracker.next()
+      await verifyRegion(dev, "backup image", flashStart, image, transferSize, log, signal)
+    } else {
+      log("[v0] ⚠️ This bootloader cannot read flash back - skipping read-back verification")
+    }
+
+    signal?.throwIfAborted()
+    tracker.next()
+    try {
+      await dev.dfuseLeave(flashStart)
+    } catch {
+      log("[v0] 💡 DFU leave failed (normal) - device should reboot automatically")
+    }
+    tracker.finish()
+    return readBack
+  } catch (e) {
+    throw withPartialReport(e, writes.partialSectors(layout, [{ address: flashStart, data: image }]))
+  } finally {
+    detach()
+  }
+}
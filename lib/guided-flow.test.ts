@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest"
+import { GuidedFlow, resumePoint, stepForPhase, type FlowStep } from "@/lib/guided-flow"
+
+const flow = () => {
+  let steps: FlowStep[] = []
+  const f = new GuidedFlow((s) => (steps = s))
+  const status = () => Object.fromEntries(steps.map((s) => [s.id, s.status]))
+  return { f, status, steps: () => steps }
+}
+
+describe("GuidedFlow", () => {
+  it("finishes each step as the next one starts and skips the ones a panda already in DFU mode does not need", () => {
+    const { f, status } = flow()
+    f.reset()
+    f.enter("connect")
+    f.skip(["identify", "enter-dfu", "reattach"], "Already in DFU mode")
+    f.enter("backup")
+    f.enter("flash")
+
+    expect(status()).toMatchObject({
+      connect: "done",
+      identify: "skipped",
+      "enter-dfu": "skipped",
+      reattach: "skipped",
+      backup: "done",
+      flash: "running",
+      verify: "pending",
+    })
+  })
+
+  it("follows the flash job's phases without moving backwards", () => {
+    const { f, status } = flow()
+    f.enter("reattach")
+    for (const kind of ["compare", "erase", "write", "verify", "erase", "write", "verify", "reboot"] as const) {
+      f.enter(stepForPhase(kind))
+    }
+    f.complete("v1.7.5")
+
+    expect(status()).toMatchObject({ reattach: "done", backup: "skipped", flash: "done", verify: "done", reboot: "done" })
+  })
+
+  it("pauses for a click and resumes from the failed or waiting step", () => {
+    const { f, status, steps } = flow()
+    f.enter("connect")
+    f.enter("identify")
+    f.enter("enter-dfu")
+    f.enter("reattach")
+    f.wait('Pick "STM32 BOOTLOADER"')
+
+    expect(resumePoint(steps())).toMatchObject({ id: "reattach", detail: 'Pick "STM32 BOOTLOADER"' })
+
+    f.reset("reattach")
+    f.enter("reattach")
+    f.enter("flash")
+    f.fail("errWRITE")
+    expect(resumePoint(steps())?.id).toBe("flash")
+
+    f.reset("flash")
+    expect(status()).toMatchObject({ connect: "done", reattach: "done", backup: "skipped", flash: "pending" })
+    expect(steps().find((s) => s.id === "flash")!.detail).toBeUndefined()
+  })
+})
@@ -0,0 +1,115 @@
+import type { PhaseKind } from "@/lib/flash-progress"
+
+/** ---------- One-button flash: the checklist behind "Flash my panda" ---------- */
+// The page runs the steps in order; this only tracks where the run is, so the checklist, the
+// resume button and the status line all read from one place.
+
+export const FLOW_STEPS = [
+  { id: "connect", label: "Connect to the panda" },
+  { id: "identify", label: "Identify hardware and firmware" },
+  { id: "enter-dfu", label: "Reboot into DFU mode" },
+  { id: "reattach", label: "Reconnect to the bootloader" },
+  { id: "backup", label: "Back up the device flash" },
+  { id: "flash", label: "Write the firmware" },
+  { id: "verify", label: "Read back and verify" },
+  { id: "reboot", label: "Reboot and confirm the version" },
+] as const
+
+export type FlowStepId = (typeof FLOW_STEPS)[number]["id"]
+
+export type StepStatus = "pending" | "running" | "done" | "skipped" | "waiting" | "failed"
+
+export type FlowStep = {
+  id: FlowStepId
+  label: string
+  status: StepStatus
+  /** What happened, what went wrong, or what the user has to do to continue */
+  detail?: string
+}
+
+/**
+ * Thrown by a step that can only go on from a click: WebUSB opens its device picker only while
+ * handling a user gesture, so the flow pauses there and the resume button supplies the click.
+ */
+export class GestureRequired extends Error {
+  constructor(prompt: string) {
+    super(prompt)
+    this.name = "GestureRequired"
+  }
+}
+
+/** The checklist row a phase of the flash job belongs to */
+export const stepForPhase = (kind: PhaseKind): FlowStepId =>
+  kind === "backup" ? "backup" : kind === "verify" ? "verify" : kind === "reboot" ? "reboot" : "flash"
+
+export const stepIndex = (id: FlowStepId) => FLOW_STEPS.findIndex((s) => s.id === id)
+
+/** Where a resumed run picks up: the step that failed or is waiting for a click */
+export const resumePoint = (steps: FlowStep[]) => steps.find((s) => s.status === "failed" || s.status === "waiting")
+
+export class GuidedFlow {
+  private steps: FlowStep[] = FLOW_STEPS.map((s) => ({ ...s, status: "pending" }))
+  private onChange: (steps: FlowStep[]) => void
+
+  constructor(onChange: (steps: FlowStep[]) => void) {
+    this.onChange = onChange
+  }
+
+  /** Start over from `from`: it and every later step become pending again, earlier ones keep their result */
+  reset(from: FlowStepId = "connect") {
+    const first = stepIndex(from)
+    this.steps = this.steps.map((s, i) => (i < first ? s : { ...s, status: "pending", detail: undefined }))
+    this.emit()
+  }
+
+  /**
+   * Move on to `id`. A running step before it is done; pending ones were never needed and are
+   * skipped. Entering a step at or behind the current one is ignored, so a job whose phases
+   * interleave (smart flash verifies each sector as it goes) never moves the checklist backwards.
+   */
+  enter(id: FlowStepId, detail?: string) {
+    const target = stepIndex(id)
+    if (this.steps.slice(target).some((s) => s.status === "running" || s.status === "done")) return
+    this.steps = this.steps.map((s, i) => {
+      if (i === target) return { ...s, status: "running", detail }
+      if (i > target) return s
+      if (s.status === "running") return { ...s, status: "done" }
+      if (s.status === "pending") return { ...s, status: "skipped" }
+      return s
+    })
+    this.emit()
+  }
+
+  skip(ids: FlowStepId[], detail?: string) {
+    this.steps = this.steps.map((s) => (ids.includes(s.id) ? { ...s, status: "skipped", detail } : s))
+    this.emit()
+  }
+
+  /** Update the running step's detail, e.g. with what identify found */
+  note(detail: string) {
+    this.update("running", { detail })
+  }
+
+  /** The running step (and so the run) finished */
+  complete(detail?: string) {
+    this.update("running", detail === undefined ? { status: "done" } : { status: "done", detail })
+  }
+
+  /** Pause the run on its current step until the user clicks */
+  wait(prompt: string) {
+    this.update("running", { status: "waiting", detail: prompt })
+  }
+
+  fail(message: string) {
+    this.update("running", { status: "failed", detail: message })
+  }
+
+  private update(status: StepStatus, change: Partial<FlowStep>) {
+    this.steps = this.steps.map((s) => (s.status === status ? { ...s, ...change } : s))
+    this.emit()
+  }
+
+  private emit() {
+    this.onChange(this.steps)
+  }
+}
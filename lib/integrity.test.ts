@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest"
+import { checkIntegrity, IntegrityError, sha256Hex } from "@/lib/integrity"
+
+const data = new TextEncoder().encode("abc").buffer
+const ABC_SHA256 = "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+
+describe("checkIntegrity", () => {
+  it("returns the digest of a file that matches, whatever the case of the known hash", async () => {
+    expect(await sha256Hex(data)).toBe(ABC_SHA256)
+    expect(await checkIntegrity("abc.bin", data, { size: 3, sha256: ABC_SHA256.toUpperCase() })).toBe(ABC_SHA256)
+  })
+
+  it("reports a size mismatch before hashing", async () => {
+    const error = await checkIntegrity("panda.bin", data, { size: 45152, sha256: ABC_SHA256 }).catch((e) => e)
+    expect(error).toBeInstanceOf(IntegrityError)
+    expect(error.message).toBe(
+      "Integrity check failed for panda.bin: got 3 bytes, expected 45152. The download may be truncated or an error page.",
+    )
+  })
+
+  it("rejects a file of the right size with another hash", async () => {
+    const other = new TextEncoder().encode("abd").buffer
+    const error = await checkIntegrity("panda.bin", other, { size: 3, sha256: ABC_SHA256 }).catch((e) => e)
+    expect(error).toBeInstanceOf(IntegrityError)
+    expect(error.message).toMatch(/^Integrity check failed for panda.bin: SHA-256 [0-9a-f]{64} does not match/)
+    expect(error.message).toContain(ABC_SHA256)
+  })
+})
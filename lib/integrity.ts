@@ -0,0 +1,32 @@
+/** Lowercase hex SHA-256 of `data`, computed with WebCrypto */
+export const sha256Hex = async (data: BufferSource) => {
+  const digest = await crypto.subtle.digest("SHA-256", data)
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+/** A file's size or SHA-256 differs from what the catalog or manifest promised */
+export class IntegrityError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = new.target.name
+  }
+}
+
+/**
+ * Throw unless `data` has the expected size and SHA-256 digest.
+ * A size mismatch is reported first: a truncated download or an HTML error page is the usual cause.
+ */
+export const checkIntegrity = async (name: string, data: ArrayBuffer, expected: { size: number; sha256: string }) => {
+  if (data.byteLength !== expected.size) {
+    throw new IntegrityError(
+      `Integrity check failed for ${name}: got ${data.byteLength} bytes, expected ${expected.size}. The download may be truncated or an error page.`,
+    )
+  }
+  const digest = await sha256Hex(data)
+  if (digest !== expected.sha256.toLowerCase()) {
+    throw new IntegrityError(
+      `Integrity check failed for ${name}: SHA-256 ${digest} does not match the known hash ${expected.sha256}`,
+    )
+  }
+  return digest
+}
@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { DfuDevice, findDfuInterfaces } from "@/lib/dfu"
+import { DfuStatusError } from "@/lib/dfu-errors"
+import { SimulatedDfuseDevice, type SimulatorOptions } from "@/lib/dfu-simulator"
+import { DEFAULT_LAYOUT } from "@/lib/dfuse-layout"
+import { decodeOptionBytes, findOptionBytesAlternate, readOptionBytes } from "@/lib/option-bytes"
+import { isReadProtected } from "@/lib/recovery"
+
+const connect = async (opts: SimulatorOptions = {}) => {
+  const sim = new SimulatedDfuseDevice({ flash: new Uint8Array(0x80000).fill(0x5a).buffer, ...opts })
+  const alternates = findDfuInterfaces(sim)
+  const dev = new DfuDevice(sim, alternates[0])
+  await dev.open()
+  return { sim, dev, options: findOptionBytesAlternate(alternates)! }
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {})
+  vi.spyOn(console, "debug").mockImplementation(() => {})
+})
+
+describe("decodeOptionBytes", () => {
+  it("decodes RDP, BOR, the user bits and nWRP", () => {
+    const factory = [0xec, 0xaa, 0x13, 0x55, 0xff, 0xff, 0, 0, 0xff, 0x0f, 0x00, 0xf0, 0xff, 0xff, 0, 0]
+    expect(decodeOptionBytes(new Uint8Array(factory).buffer)).toMatchObject({
+      rdp: 0,
+      bor: null,
+      watchdog: "software",
+      resetOnStop: false,
+      resetOnStandby: false,
+      writeProtected: [],
+      corrupt: false,
+    })
+
+    // RDP level 1, BOR level 2, hardware watchdog, sectors 0 and 1 write-protected
+    const locked = [0xc4, 0x00, 0x3b, 0xff, 0xff, 0xff, 0, 0, 0xfc, 0x0f, 0x03, 0xf0, 0xff, 0xff, 0, 0]
+    expect(decodeOptionBytes(new Uint8Array(locked).buffer)).toMatchObject({
+      rdp: 1,
+      bor: { level: 2 },
+      watchdog: "hardware",
+      writeProtected: [0, 1],
+      corrupt: false,
+    })
+
+    const torn = [...factory.slice(0, 2), 0, 0, ...factory.slice(4)]
+    expect(decodeOptionBytes(new Uint8Array(torn).buffer).corrupt).toBe(true)
+  })
+})
+
+describe("option bytes on the simulated ST bootloader", () => {
+  it("reads them from their own alternate and selects the flash alternate again", async () => {
+    const { sim, dev, options } = await connect({ writeProtected: [0] })
+
+    expect(options.alternate.alternateSetting).toBe(1)
+    expect(await readOptionBytes(dev, options, DEFAULT_LAYOUT.sectors.length)).toMatchObject({
+      rdp: 0,
+      writeProtected: [0],
+    })
+    expect(new Uint8Array(await dev.dfuseRead(0x08000000, 4, 2048))).toEqual(sim.readMemory(0x08000000, 4))
+  })
+
+  it("turns an opaque erase failure on a write-protected sector into a readable nWRP bit", async () => {
+    const { dev, options } = await connect({ writeProtected: [1] })
+
+    const error = await dev.dfuseErase(0x08004000).catch((e) => e)
+    expect(error).toBeInstanceOf(DfuStatusError)
+    expect(error.statusName).toBe("errERASE")
+    await dev.abortToIdle()
+    expect((await readOptionBytes(dev, options)).writeProtected).toEqual([1])
+  })
+
+  it("removes read protection at the cost of a mass erase", async () => {
+    const { sim, dev, options } = await connect({ readProtected: true })
+    expect((await readOptionBytes(dev, options)).rdp).toBe(1)
+    expect(await isReadProtected(dev, DEFAULT_LAYOUT, 2048)).toBe(true)
+
+    await dev.dfuseReadUnprotect()
+
+    expect((await readOptionBytes(dev, options)).rdp).toBe(0)
+    expect(await isReadProtected(dev, DEFAULT_LAYOUT, 2048)).toBe(false)
+    expect(sim.readMemory(0x08000000, 16)).toEqual(new Uint8Array(16).fill(0xff))
+  })
+})
@@ -0,0 +1,100 @@
+/** ---------- STM32F2/F4 option bytes ---------- */
+// The ST bootloader exposes the option bytes as their own DFUSe alternate ("@Option Bytes
+// /0x1FFFC000/01*016 e"). The 16 bytes read from there are, as little-endian 16-bit pairs:
+//   0x00 USER, RDP     0x02 their complements
+//   0x08 nWRP[11:0] (bit 15: SPRMOD on the F42x/F43x)     0x0a its complement
+// See RM0033 / RM0090, "Option bytes description".
+import { DfuDevice, type DfuSettings } from "@/lib/dfu"
+import { parseMemoryLayout } from "@/lib/dfuse-layout"
+import { hex } from "@/lib/utils"
+
+export const OPTION_BYTES_ADDRESS = 0x1fffc000
+export const OPTION_BYTES_SIZE = 16
+
+/** RDP 0xaa is level 0 and 0xcc level 2; every other value is level 1 */
+export type ReadProtection = 0 | 1 | 2
+
+export type OptionBytes = {
+  rdp: ReadProtection
+  /** Brown-out reset level; `null` means BOR is off and only the 1.8V power-down reset remains */
+  bor: { level: 1 | 2 | 3; threshold: string } | null
+  /** Independent watchdog: started by software, or always on from reset */
+  watchdog: "software" | "hardware"
+  /** Entering Stop or Standby mode resets the MCU instead */
+  resetOnStop: boolean
+  resetOnStandby: boolean
+  /** Indices of the flash sectors whose nWRP bit is cleared */
+  writeProtected: number[]
+  /** The complement bytes do not match, so the values above may be garbage */
+  corrupt: boolean
+  raw: Uint8Array
+}
+
+const BOR_LEVELS: OptionBytes["bor"][] = [
+  { level: 3, threshold: "2.70-3.60 V" },
+  { level: 2, threshold: "2.40-2.70 V" },
+  { level: 1, threshold: "2.10-2.40 V" },
+  null,
+]
+
+export const RDP_DESCRIPTION: Record<ReadProtection, string> = {
+  0: "Level 0 - no read protection",
+  1: "Level 1 - flash is read-protected; removing it mass-erases the flash",
+  2: "Level 2 - the chip is locked for good; the bootloader and debug port are disabled",
+}
+
+/** Decode the option bytes of an STM32F2/F4 with `sectorCount` flash sectors (12 on a 1 MiB part) */
+export const decodeOptionBytes = (data: ArrayBuffer, sectorCount = 12): OptionBytes => {
+  if (data.byteLength < 12) throw new Error(`Option bytes too short: ${data.byteLength} bytes`)
+  const b = new Uint8Array(data.slice(0, OPTION_BYTES_SIZE))
+  const user = b[0]
+  const nWrp = b[8] | (b[9] << 8)
+  const complement = (i: number) => b[i] === (~b[i - 2] & 0xff)
+  return {
+    rdp: b[1] === 0xaa ? 0 : b[1] === 0xcc ? 2 : 1,
+    bor: BOR_LEVELS[(user >> 2) & 0x3],
+    watchdog: user & 0x20 ? "software" : "hardware",
+    resetOnStop: !(user & 0x40),
+    resetOnStandby: !(user & 0x80),
+    writeProtected: Array.from({ length: Math.min(sectorCount, 12) }, (_, i) => i).filter((i) => !(nWrp & (1 << i))),
+    corrupt: !complement(2) || !complement(3) || !complement(10) || !complement(11),
+    raw: b,
+  }
+}
+
+/** One line per field, for the log */
+export const describeOptionBytes = (ob: OptionBytes) => [
+  `RDP: ${RDP_DESCRIPTION[ob.rdp]}`,
+  `BOR: ${ob.bor ? `level ${ob.bor.level} (${ob.bor.threshold})` : "off"}`,
+  `Watchdog: ${ob.watchdog}, reset on Stop: ${ob.resetOnStop ? "yes" : "no"}, reset on Standby: ${ob.resetOnStandby ? "yes" : "no"}`,
+  `Write-protected sectors: ${ob.writeProtected.length ? ob.writeProtected.join(", ") : "none"}`,
+  ...(ob.corrupt ? ["⚠️ The complement bytes do not match - the option bytes may be corrupt"] : []),
+]
+
+/** The alternate that exposes the option bytes, if the bootloader has one */
+export const findOptionBytesAlternate = (alternates: DfuSettings[]) =>
+  alternates.find((alt) => {
+    try {
+      return !!alt.name && parseMemoryLayout(alt.name).sectors[0]?.start === OPTION_BYTES_ADDRESS
+    } catch {
+      return false
+    }
+  })
+
+/**
+ * Read the option bytes through `alternate`, then select `flash`'s alternate again: both share
+ * the interface, so without that the next flash operation would address the option bytes.
+ */
+export const readOptionBytes = async (flash: DfuDevice, alternate: DfuSettings, sectorCount?: number) => {
+  const dev = new DfuDevice(flash.device, alternate)
+  try {
+    await dev.open()
+    const data = await dev.dfuseRead(OPTION_BYTES_ADDRESS, OPTION_BYTES_SIZE, await dev.getTransferSize())
+    if (data.byteLength !== OPTION_BYTES_SIZE) {
+      throw new Error(`Read ${data.byteLength} of ${OPTION_BYTES_SIZE} option bytes at ${hex(OPTION_BYTES_ADDRESS)}`)
+    }
+    return decodeOptionBytes(data, sectorCount)
+  } finally {
+    await flash.open()
+  }
+}
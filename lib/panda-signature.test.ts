@@ -0,0 +1,91 @@
+import { generateKeyPairSync } from "node:crypto"
+import { readFileSync } from "node:fs"
+import { describe, expect, it } from "vitest"
+import {
+  checkAppSignature,
+  extractBootstubKeys,
+  KNOWN_KEYS,
+  parseRsaPrivateKey,
+  readAppSignature,
+  signApp,
+  verifyAppSignature,
+} from "@/lib/panda-signature"
+
+const prebuilt = (path: string) => {
+  const buf = readFileSync(`prebuilt-binaries/${path}`)
+  return buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength)
+}
+
+const unsignedApp = () => {
+  const bytes = new Uint8Array(4096)
+  for (let i = 8; i < bytes.length; i++) bytes[i] = i & 0xff
+  new DataView(bytes.buffer).setUint32(0, 0x20001000, true)
+  new DataView(bytes.buffer).setUint32(4, 0x08004101, true)
+  return bytes.buffer
+}
+
+const devKey = (type: "pkcs1" | "pkcs8", modulusLength = 1024) =>
+  generateKeyPairSync("rsa", {
+    modulusLength,
+    privateKeyEncoding: { type, format: "pem" },
+    publicKeyEncoding: { type: "spki", format: "pem" },
+  }).privateKey
+
+describe("prebuilt firmware", () => {
+  it("finds both comma keys in the bootstub", () => {
+    const keys = extractBootstubKeys(prebuilt("sunny-basic/bootstub.panda.bin"))
+    expect(keys).toEqual(KNOWN_KEYS.map(({ modulus, exponent }) => ({ modulus, exponent })))
+  })
+
+  it("verifies the community app against the debug key and its own bootstub", async () => {
+    const check = await checkAppSignature(prebuilt("sunny-basic/panda.bin"), prebuilt("sunny-basic/bootstub.panda.bin"))
+    expect(check.signer?.id).toBe("comma-debug")
+    expect(check.acceptedByBootstub).toBe(true)
+    expect(check.warnings).toEqual([])
+  })
+
+  it("rejects a signature once a signed byte changes", async () => {
+    const app = new Uint8Array(prebuilt("sunny-advanced/panda.bin"))
+    app[0x200] ^= 1
+    expect(await verifyAppSignature(app.buffer, KNOWN_KEYS)).toBeNull()
+  })
+})
+
+describe("dev-key signing", () => {
+  it.each(["pkcs1", "pkcs8"] as const)("signs an unsigned app so a bootstub with the key accepts it (%s)", async (type) => {
+    const key = parseRsaPrivateKey(devKey(type))
+    const app = unsignedApp()
+    const signed = await signApp(app, key)
+
+    expect(signed.byteLength).toBe(app.byteLength + 128)
+    expect(readAppSignature(signed)?.signedLength).toBe(app.byteLength)
+    expect(await verifyAppSignature(signed, [key])).toBe(key)
+    // Everything after the length word is the original image
+    expect(new Uint8Array(signed, 4, app.byteLength - 4)).toEqual(new Uint8Array(app, 4))
+  })
+
+  it("re-signs an already signed app instead of signing the old signature", async () => {
+    const key = parseRsaPrivateKey(devKey("pkcs1"))
+    const original = prebuilt("sunny-basic/panda.bin")
+    const resigned = await signApp(original, key)
+
+    expect(resigned.byteLength).toBe(original.byteLength)
+    expect(await verifyAppSignature(resigned, [key])).toBe(key)
+  })
+
+  it("warns that an unsigned or foreign-signed app will not boot on a stock bootstub", async () => {
+    const bootstub = prebuilt("sunny-basic/bootstub.panda.bin")
+    expect((await checkAppSignature(unsignedApp(), bootstub)).warnings).toContain(
+      "the app is unsigned - a panda bootstub will refuse to boot it",
+    )
+
+    const foreign = await signApp(unsignedApp(), parseRsaPrivateKey(devKey("pkcs1")))
+    const check = await checkAppSignature(foreign, bootstub)
+    expect(check.acceptedByBootstub).toBe(false)
+    expect(check.warnings).toContain("the bootstub being flashed will reject this app's signature")
+  })
+
+  it("refuses keys the bootstub cannot use", () => {
+    expect(() => parseRsaPrivateKey(devKey("pkcs1", 2048))).toThrow(/RSA-1024/)
+  })
+})
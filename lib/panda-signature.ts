@@ -0,0 +1,241 @@
+/** ---------- panda app signatures (RSA-1024 over SHA-1) ---------- */
+// A signed app starts with the length of its signed part instead of a stack pointer, and the
+// 128-byte big-endian RSA signature follows that part. The bootstub boots the app only if
+//   sig^e mod n == 00 01 ff*0x69 00 || SHA1(app[4:len])
+// for one of the keys compiled into it (mincrypt RSAPublicKey structs, see board/crypto).
+
+const RSA_BYTES = 128
+const RSA_WORDS = RSA_BYTES / 4
+/** mincrypt RSAPublicKey: len, n0inv, n[32], rr[32], exponent */
+const KEY_STRUCT_BYTES = 4 + 4 + RSA_BYTES * 2 + 4
+
+export type RsaPublicKey = { modulus: bigint; exponent: bigint }
+
+export type KnownKey = RsaPublicKey & {
+  id: string
+  name: string
+  /** Release builds come from comma; the debug key's private half is public, community builds use it */
+  kind: "release" | "debug"
+}
+
+export const KNOWN_KEYS: KnownKey[] = [
+  {
+    id: "comma-release",
+    name: "comma release key",
+    kind: "release",
+    exponent: BigInt(65537),
+    modulus: BigInt(
+      "0xc637d194da739cd242aaeaf759239a943331eddb7e2782aa1fae00851712f40f65a17b1d33002a7d81aaf41d9a7e6efb69a12814fc4bfcc1ec4d2abf80f504eb69d9638aec62e5cb6b3ab6bd93ec31a8d8fadd6adcbb8fb053952724455ffdbb95e2308e15f7cc4fccf73cee229adf0bcc7b84202fe6fc048a558cafbaf05141",
+    ),
+  },
+  {
+    id: "comma-debug",
+    name: "comma debug key (community builds)",
+    kind: "debug",
+    exponent: BigInt(65537),
+    modulus: BigInt(
+      "0xbde3c967468e31e3845ded8f1b40030be1a2830b85d1c7de7c7c757c2baf856c268fd59e36536917d32ca06a4d0b8e80eeb6980e6e6187640f88cf71de503e951a3affb5e376e2f3e4f80f79711b23b7cae098643de8736368d82347e825d45f57c458a63338abf365e99757a44ee7893576bb89ae47547d6715d8a4b0e28719",
+    ),
+  },
+]
+
+const ONE = BigInt(1)
+
+const modPow = (base: bigint, exp: bigint, mod: bigint) => {
+  let result = ONE
+  base %= mod
+  while (exp > BigInt(0)) {
+    if (exp & ONE) result = (result * base) % mod
+    base = (base * base) % mod
+    exp >>= ONE
+  }
+  return result
+}
+
+const toBigInt = (bytes: Uint8Array) => bytes.reduce((n, b) => (n << BigInt(8)) | BigInt(b), BigInt(0))
+
+const fromBigInt = (n: bigint, length: number) => {
+  const out = new Uint8Array(length)
+  for (let i = length - 1; i >= 0; i--) {
+    out[i] = Number(n & BigInt(0xff))
+    n >>= BigInt(8)
+  }
+  return out
+}
+
+/** The block the bootstub expects after RSA decryption: PKCS#1 type-1 padding around a bare SHA-1 */
+const paddedDigest = async (signedPart: Uint8Array) => {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-1", signedPart))
+  const block = new Uint8Array(RSA_BYTES).fill(0xff)
+  block[0] = 0x00
+  block[1] = 0x01
+  block[RSA_BYTES - digest.length - 1] = 0x00
+  block.set(digest, RSA_BYTES - digest.length)
+  return block
+}
+
+export type AppSignature = {
+  /** Length of the signed part, including the length word itself */
+  signedLength: number
+  signature: Uint8Array
+}
+
+/** The signature block of a signed app image, or null if `data` does not carry one */
+export const readAppSignature = (data: ArrayBuffer): AppSignature | null => {
+  if (data.byteLength < 8 + RSA_BYTES) return null
+  const signedLength = new DataView(data).getUint32(0, true)
+  if (signedLength < 8 || signedLength + RSA_BYTES > data.byteLength) return null
+  return { signedLength, signature: new Uint8Array(data, signedLength, RSA_BYTES) }
+}
+
+/** The first of `keys` whose signature over `data` the bootstub would accept, or null */
+export const verifyAppSignature = async <K extends RsaPublicKey>(data: ArrayBuffer, keys: K[]): Promise<K | null> => {
+  const sig = readAppSignature(data)
+  if (!sig) return null
+  const expected = toBigInt(await paddedDigest(new Uint8Array(data, 4, sig.signedLength - 4)))
+  const s = toBigInt(sig.signature)
+  return keys.find((k) => s < k.modulus && modPow(s, k.exponent, k.modulus) === expected) ?? null
+}
+
+/**
+ * Find the RSA public keys compiled into a bootstub. mincrypt keys are recognisable on their own:
+ * len == 32 words, and n0inv is -1/n[0] mod 2^32.
+ */
+export const extractBootstubKeys = (bootstub: ArrayBuffer): RsaPublicKey[] => {
+  const view = new DataView(bootstub)
+  const keys: RsaPublicKey[] = []
+  for (let off = 0; off + KEY_STRUCT_BYTES <= bootstub.byteLength; off += 4) {
+    if (view.getUint32(off, true) !== RSA_WORDS) continue
+    const n0inv = view.getUint32(off + 4, true)
+    const n0 = view.getUint32(off + 8, true)
+    if ((n0 & 1) === 0 || Math.imul(n0, n0inv) >>> 0 !== 0xffffffff) continue
+
+    let modulus = BigInt(0)
+    for (let i = RSA_WORDS - 1; i >= 0; i--) {
+      modulus = (modulus << BigInt(32)) | BigInt(view.getUint32(off + 8 + i * 4, true))
+    }
+    const exponent = BigInt(view.getInt32(off + 8 + RSA_BYTES * 2, true))
+    keys.push({ modulus, exponent })
+    off += KEY_STRUCT_BYTES - 4
+  }
+  return keys
+}
+
+/** ---------- Dev-key signing ---------- */
+export type RsaPrivateKey = RsaPublicKey & { privateExponent: bigint }
+
+/** Minimal DER walk: the tag, the content and where the next element starts */
+const readDer = (der: Uint8Array, offset: number) => {
+  const tag = der[offset]
+  let length = der[offset + 1]
+  let start = offset + 2
+  if (length & 0x80) {
+    const n = length & 0x7f
+    length = 0
+    for (let i = 0; i < n; i++) length = length * 256 + der[start + i]
+    start += n
+  }
+  if (start + length > der.length) throw new Error("Truncated DER in private key")
+  return { tag, content: der.subarray(start, start + length), next: start + length }
+}
+
+/**
+ * Parse an RSA private key in PEM form, either PKCS#1 ("BEGIN RSA PRIVATE KEY", as panda's
+ * certs/debug) or unencrypted PKCS#8 ("BEGIN PRIVATE KEY").
+ */
+export const parseRsaPrivateKey = (pem: string): RsaPrivateKey => {
+  if (pem.includes("ENCRYPTED")) {
+    throw new Error("Encrypted private keys are not supported - export it without a passphrase")
+  }
+  const body = pem.replace(/-----(BEGIN|END)[^-]+-----/g, "").replace(/\s+/g, "")
+  if (!body) throw new Error("No PEM data found in key file")
+  let der = Uint8Array.from(atob(body), (c) => c.charCodeAt(0))
+
+  let seq = readDer(der, 0)
+  if (seq.tag !== 0x30) throw new Error("Private key is not a DER SEQUENCE")
+  // PKCS#8 wraps the PKCS#1 structure: version, AlgorithmIdentifier, OCTET STRING
+  const version = readDer(seq.content, 0)
+  const second = readDer(seq.content, version.next)
+  if (second.tag === 0x30) {
+    const wrapped = readDer(seq.content, second.next)
+    if (wrapped.tag !== 0x04) throw new Error("Unsupported PKCS#8 private key")
+    der = wrapped.content
+    seq = readDer(der, 0)
+  }
+
+  // RSAPrivateKey: version, n, e, d, p, q, ...
+  const ints: bigint[] = []
+  for (let off = 0; ints.length < 4 && off < seq.content.length; ) {
+    const el = readDer(seq.content, off)
+    if (el.tag !== 0x02) throw new Error("Malformed RSA private key")
+    ints.push(toBigInt(el.content))
+    off = el.next
+  }
+  const [, modulus, exponent, privateExponent] = ints
+  if (!privateExponent) throw new Error("Malformed RSA private key")
+  if (modulus >> BigInt(RSA_BYTES * 8 - 1) !== ONE) {
+    throw new Error("panda bootstubs only verify RSA-1024 signatures - use a 1024-bit key")
+  }
+  return { modulus, exponent, privateExponent }
+}
+
+/**
+ * Sign a raw app image the way panda's board/crypto/sign.py does with SETLEN: word 0 becomes
+ * the image length and the signature is appended. An already signed image is re-signed.
+ */
+export const signApp = async (data: ArrayBuffer, key: RsaPrivateKey): Promise<ArrayBuffer> => {
+  const existing = readAppSignature(data)
+  const unsignedLength =
+    existing && existing.signedLength + RSA_BYTES === data.byteLength ? existing.signedLength : data.byteLength
+  const raw = new Uint8Array(data, 0, unsignedLength)
+
+  const out = new Uint8Array(raw.byteLength + RSA_BYTES)
+  out.set(raw)
+  new DataView(out.buffer).setUint32(0, raw.byteLength, true)
+
+  const block = toBigInt(await paddedDigest(out.subarray(4, raw.byteLength)))
+  out.set(fromBigInt(modPow(block, key.privateExponent, key.modulus), RSA_BYTES), raw.byteLength)
+  return out.buffer
+}
+
+/** ---------- App/bootstub pairing ---------- */
+export type SignatureCheck = {
+  signed: boolean
+  /** The known key that signed the app, if any */
+  signer?: KnownKey
+  /** Whether the bootstub being flashed alongside holds a key for the app; unset without a bootstub */
+  acceptedByBootstub?: boolean
+  warnings: string[]
+}
+
+/** Check an app against known keys and, when one is being flashed with it, against the bootstub's keys */
+export const checkAppSignature = async (app: ArrayBuffer, bootstub?: ArrayBuffer): Promise<SignatureCheck> => {
+  const warnings: string[] = []
+  const sig = readAppSignature(app)
+  const signer = (await verifyAppSignature(app, KNOWN_KEYS)) ?? undefined
+  const bootstubKeys = bootstub ? extractBootstubKeys(bootstub) : undefined
+  const acceptedBy = bootstubKeys && (await verifyAppSignature(app, bootstubKeys))
+
+  if (!sig) {
+    warnings.push("the app is unsigned - a panda bootstub will refuse to boot it")
+  } else if (!signer && !acceptedBy) {
+    warnings.push("the app's signature does not match any known key")
+  } else if (signer?.kind === "debug" && !bootstubKeys) {
+    warnings.push("the app is signed with the debug key - it only boots on a bootstub built with debug keys allowed")
+  }
+
+  if (bootstubKeys && sig) {
+    if (bootstubKeys.length === 0) {
+      warnings.push("no RSA keys found in the bootstub - cannot tell whether it will boot the app")
+    } else if (!acceptedBy) {
+      warnings.push("the bootstub being flashed will reject this app's signature")
+    }
+  }
+
+  return {
+    signed: !!sig,
+    signer,
+    acceptedByBootstub: bootstubKeys && bootstubKeys.length > 0 ? !!acceptedBy : undefined,
+    warnings,
+  }
+}
@@ -0,0 +1,146 @@
+import { readFileSync } from "node:fs"
+import { describe, expect, it } from "vitest"
+import {
+  BOOTSTUB_PID,
+  confirmFlash,
+  embeddedVersion,
+  PANDA_PID,
+  PANDA_VID,
+  PandaClient,
+  type PandaTransport,
+  type PandaUsb,
+} from "@/lib/panda"
+
+const ascii = (s: string, length: number) => {
+  const out = new Uint8Array(length)
+  out.set(Array.from(s, (c) => c.charCodeAt(0)))
+  return out
+}
+
+/** A panda answering vendor requests from a table; missing entries stall like old firmware */
+const fakePanda = (productId: number, responses: Record<number, Uint8Array>) => {
+  const sent: { request: number; value: number }[] = []
+  let opened = false
+  const device: PandaTransport = {
+    vendorId: PANDA_VID,
+    productId,
+    get opened() {
+      return opened
+    },
+    async open() {
+      opened = true
+    },
+    async close() {
+      opened = false
+    },
+    async controlTransferIn(setup, length) {
+      const data = responses[setup.request]
+      if (!data) return { status: "stall" } as USBInTransferResult
+      const out = data.slice(0, length)
+      return { status: "ok", data: new DataView(out.buffer) } as USBInTransferResult
+    },
+    async controlTransferOut(setup) {
+      sent.push({ request: setup.request, value: setup.value })
+      return { status: "ok", bytesWritten: 0 } as USBOutTransferResult
+    },
+  }
+  return { device, sent }
+}
+
+describe("PandaClient", () => {
+  it("identifies a panda running its app", async () => {
+    const { device } = fakePanda(PANDA_PID, {
+      0xd6: ascii("v1.7.3-DEV-5c5dc39-RELEASE", 0x40),
+      0xd0: ascii("1d0002000c51363338383037", 0x20),
+      0xc1: new Uint8Array([2]),
+    })
+
+    expect(await new PandaClient(device).identify()).toEqual({
+      mode: "app",
+      version: "v1.7.3-DEV-5c5dc39-RELEASE",
+      serial: "1d0002000c513633",
+      hwType: "grey",
+    })
+  })
+
+  it("reports the bootstub's version in bootstub mode and tolerates requests old firmware lacks", async () => {
+    const { device } = fakePanda(BOOTSTUB_PID, {
+      0xd6: ascii("v1.5.0-a1b2c3d", 0x40),
+      0xd0: new Uint8Array(0x20).fill(0xff),
+    })
+
+    expect(await new PandaClient(device).identify()).toEqual({
+      mode: "bootstub",
+      bootstubVersion: "v1.5.0-a1b2c3d",
+      serial: undefined,
+      hwType: "unknown",
+    })
+  })
+
+  it("asks for the ST bootloader or the bootstub with request 0xd1", async () => {
+    const { device, sent } = fakePanda(PANDA_PID, {})
+    const panda = new PandaClient(device)
+    await panda.enterBootloader("st-dfu")
+    await panda.enterBootloader("bootstub")
+
+    expect(sent).toEqual([
+      { request: 0xd1, value: 0 },
+      { request: 0xd1, value: 1 },
+    ])
+  })
+})
+
+describe("confirmFlash", () => {
+  const buf = readFileSync("prebuilt-binaries/sunny-basic/panda.bin")
+  const app = buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength)
+  const built = "v1.7.5-DEV-51ee4da5-DEBUG"
+
+  /** navigator.usb with nothing attached; `plug` raises a connect event like a re-enumerating device */
+  const fakeUsb = (attached: USBDevice[] = []) => {
+    const usb = new EventTarget()
+    const plug = (device: PandaTransport) => usb.dispatchEvent(Object.assign(new Event("connect"), { device }))
+    return { usb: Object.assign(usb, { getDevices: async () => attached }) as unknown as PandaUsb, plug }
+  }
+
+  it("finds the version string the build embeds", () => {
+    expect(embeddedVersion(app)).toBe(built)
+  })
+
+  it("is verified once the panda re-enumerates running the flashed app", async () => {
+    const { usb, plug } = fakeUsb()
+    const { device } = fakePanda(PANDA_PID, { 0xd6: ascii(built, 0x40) })
+
+    const confirmation = confirmFlash(usb, app, 1000)
+    setTimeout(() => plug(device), 10)
+    expect(await confirmation).toMatchObject({ outcome: "verified", identity: { mode: "app", version: built } })
+  })
+
+  it("reports a mismatch when the panda runs other firmware or stays in its bootstub", async () => {
+    const other = fakePanda(PANDA_PID, { 0xd6: ascii("v1.7.5-DEV-b11da4d3-DEBUG", 0x40) }).device
+    expect(await confirmFlash(fakeUsb([other as USBDevice]).usb, app, 1000)).toMatchObject({
+      outcome: "mismatch",
+      expected: built,
+    })
+
+    const bootstub = fakePanda(BOOTSTUB_PID, { 0xd6: ascii(built, 0x40) }).device
+    expect(await confirmFlash(fakeUsb([bootstub as USBDevice]).usb, app, 1000)).toMatchObject({
+      outcome: "mismatch",
+      identity: { mode: "bootstub" },
+    })
+  })
+
+  it("waits past the bootstub it just reset, which may still be listed, for the app", async () => {
+    const bootstub = fakePanda(BOOTSTUB_PID, { 0xd6: ascii("v1.5.0-a1b2c3d", 0x40) }).device as USBDevice
+    const { usb, plug } = fakeUsb([bootstub])
+    const { device } = fakePanda(PANDA_PID, { 0xd6: ascii(built, 0x40) })
+
+    const confirmation = confirmFlash(usb, app, 1000, bootstub)
+    setTimeout(() => plug(bootstub), 5)
+    setTimeout(() => plug(device), 10)
+    expect(await confirmation).toMatchObject({ outcome: "verified", identity: { mode: "app", version: built } })
+  })
+
+  it("says the device did not return when no panda shows up in time", async () => {
+    expect(await confirmFlash(fakeUsb().usb, app, 20)).toEqual({ outcome: "did-not-return" })
+  })
+})
@@ -0,0 +1,239 @@
+/** ---------- panda USB protocol (normal mode and bootstub) ---------- */
+// The panda firmware and its bootstub answer vendor control requests on endpoint 0:
+//   0xd6 version string, 0xd0 serial/secret, 0xc1 hardware type, 0xd1 enter bootloader, 0xd8 reset
+import { DfuTransportError, toTransportError } from "@/lib/dfu-errors"
+
+export const PANDA_VID = 0xbbaa
+export const PANDA_PID = 0xddcc
+/** The bootstub enumerates with its own product id while it waits for an app */
+export const BOOTSTUB_PID = 0xddee
+
+/** The parts of WebUSB's USBDevice the panda client drives */
+export type PandaTransport = Pick<
+  USBDevice,
+  "vendorId" | "productId" | "opened" | "open" | "close" | "controlTransferIn" | "controlTransferOut"
+>
+
+export type PandaHwType =
+  | "unknown"
+  | "white"
+  | "grey"
+  | "black"
+  | "pedal"
+  | "uno"
+  | "dos"
+  | "red"
+  | "red v2"
+  | "tres"
+  | "cuatro"
+
+/** Values returned by request 0xc1, in panda's own numbering */
+const HW_TYPES: PandaHwType[] = [
+  "unknown",
+  "white",
+  "grey",
+  "black",
+  "pedal",
+  "uno",
+  "dos",
+  "red",
+  "red v2",
+  "tres",
+  "cuatro",
+]
+
+export type PandaIdentity = {
+  /** Which firmware answered: the app, or the bootstub waiting for one */
+  mode: "app" | "bootstub"
+  /** Version string of the running app; unset in bootstub mode */
+  version?: string
+  /** Only the bootstub itself reports its version */
+  bootstubVersion?: string
+  /** Unset on pandas that were never provisioned */
+  serial?: string
+  hwType: PandaHwType
+}
+
+const REQ = { GET_HW_TYPE: 0xc1, GET_SERIAL: 0xd0, ENTER_BOOTLOADER: 0xd1, GET_VERSION: 0xd6, RESET: 0xd8 } as const
+
+/** NUL/0xff-terminated ASCII, as the firmware fills its response buffers */
+const decodeString = (data: DataView) => {
+  const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+  let end = bytes.findIndex((b) => b === 0 || b === 0xff)
+  if (end === -1) end = bytes.length
+  return String.fromCharCode(...bytes.subarray(0, end)).trim()
+}
+
+export const isPanda = (device: Pick<USBDevice, "vendorId">) => device.vendorId === PANDA_VID
+
+export class PandaClient {
+  device: PandaTransport
+
+  constructor(device: PandaTransport) {
+    this.device = device
+  }
+
+  get mode(): PandaIdentity["mode"] {
+    return this.device.productId === BOOTSTUB_PID ? "bootstub" : "app"
+  }
+
+  async open() {
+    if (!this.device.opened) await this.device.open()
+  }
+
+  async close() {
+    try {
+      if (this.device.opened) await this.device.close()
+    } catch {
+      /* ignore */
+    }
+  }
+
+  protected async requestIn(request: number, length: number, value = 0) {
+    const r = await this.device
+      .controlTransferIn({ requestType: "vendor", recipient: "device", request, value, index: 0 }, length)
+      .catch((e) => Promise.reject(toTransportError(e)))
+    if (r.status !== "ok" || !r.data) {
+      throw new DfuTransportError(`panda request 0x${request.toString(16)} failed: ${r.status}`, false)
+    }
+    return r.data
+  }
+
+  protected async requestOut(request: number, value = 0) {
+    const r = await this.device
+      .controlTransferOut({ requestType: "vendor", recipient: "device", request, value, index: 0 })
+      .catch((e) => Promise.reject(toTransportError(e)))
+    if (r.status !== "ok") {
+      throw new DfuTransportError(`panda request 0x${request.toString(16)} failed: ${r.status}`, false)
+    }
+  }
+
+  /** Version string of whatever is running: the app, or the bootstub in bootstub mode */
+  async getVersion() {
+    return decodeString(await this.requestIn(REQ.GET_VERSION, 0x40))
+  }
+
+  /** The 16-character serial, or undefined for an unprovisioned panda */
+  async getSerial() {
+    const data = await this.requestIn(REQ.GET_SERIAL, 0x20)
+    const serial = decodeString(new DataView(data.buffer, data.byteOffset, Math.min(0x10, data.byteLength)))
+    return serial || undefined
+  }
+
+  async getHwType(): Promise<PandaHwType> {
+    const data = await this.requestIn(REQ.GET_HW_TYPE, 0x40)
+    return (data.byteLength > 0 && HW_TYPES[data.getUint8(0)]) || "unknown"
+  }
+
+  /**
+   * Read everything the running firmware tells about itself. Old firmware does not know every
+   * request, so a failed serial or hardware-type query leaves that field unknown.
+   */
+  async identify(): Promise<PandaIdentity> {
+    await this.open()
+    const mode = this.mode
+    const version = await this.getVersion()
+    const serial = await this.getSerial().catch(() => undefined)
+    const hwType = await this.getHwType().catch((): PandaHwType => "unknown")
+    return mode === "bootstub" ? { mode, bootstubVersion: version, serial, hwType } : { mode, version, serial, hwType }
+  }
+
+  /** 0xd1: reboot into the ST system bootloader (value 0) or the bootstub (value 1) */
+  async enterBootloader(target: "st-dfu" | "bootstub") {
+    await this.requestOut(REQ.ENTER_BOOTLOADER, target === "st-dfu" ? 0 : 1)
+  }
+
+  async reset() {
+    await this.requestOut(REQ.RESET)
+  }
+}
+
+export const formatIdentity = (id: PandaIdentity) =>
+  [
+    `${id.hwType} panda`,
+    id.mode === "bootstub" ? `bootstub ${id.bootstubVersion || "?"}` : `firmware ${id.version || "?"}`,
+    `serial ${id.serial ?? "not provisioned"}`,
+  ].join(", ")
+
+/** ---------- Post-flash confirmation ---------- */
+// After DFU leave the panda boots the new app and re-enumerates as 0xbbaa:0xddcc. The app reports
+// its git version (request 0xd6), which the build also embeds in the image as a NUL-terminated
+// string, so the running firmware can be matched against the bytes that were flashed.
+
+/** The parts of navigator.usb the confirmation step needs */
+export type PandaUsb = Pick<USB, "getDevices" | "addEventListener" | "removeEventListener">
+
+export type FlashConfirmation =
+  /** The panda came back running the flashed app */
+  | { outcome: "verified"; identity: PandaIdentity }
+  /** The panda came back, but not running the flashed app (or only its bootstub) */
+  | { outcome: "mismatch"; identity: PandaIdentity; expected?: string }
+  /** No panda answered: it never re-enumerated, or dropped off before reporting its version */
+  | { outcome: "did-not-return"; reason?: string }
+
+/** One character per byte, so string offsets match image offsets */
+const imageText = (app: ArrayBuffer) => new TextDecoder("latin1").decode(app)
+
+/** The version string a panda app build embeds, e.g. "v1.7.5-DEV-51ee4da5-DEBUG" */
+export const embeddedVersion = (app: ArrayBuffer) => /(v\d+\.\d+\.\d+[\x21-\x7e]*)\0/.exec(imageText(app))?.[1]
+
+/** Whether `version` appears in the image exactly as the firmware stores it, NUL-terminated */
+const imageHasVersion = (app: ArrayBuffer, version: string) => imageText(app).includes(`${version}\0`)
+
+/**
+ * Resolve with the first panda that is (or becomes) visible to this page, or null after
+ * `timeoutMs`. Only devices the user granted access to earlier show up. `leaving` is the device
+ * that was just reset: getDevices() can still list it until its disconnect is processed, and
+ * once it re-enumerates WebUSB hands out a new USBDevice, so it is never the answer.
+ */
+export const waitForPanda = (usb: PandaUsb, timeoutMs: number, leaving?: USBDevice): Promise<USBDevice | null> =>
+  new Promise((resolve) => {
+    const matches = (device: USBDevice) => isPanda(device) && device !== leaving
+    const done = (device: USBDevice | null) => {
+      clearTimeout(timer)
+      usb.removeEventListener("connect", onConnect)
+      resolve(device)
+    }
+    const onConnect = (e: Event) => {
+      const device = (e as USBConnectionEvent).device
+      if (matches(device)) done(device)
+    }
+    const timer = setTimeout(() => done(null), timeoutMs)
+    // Listen first, so a panda that appears while getDevices() runs is not missed
+    usb.addEventListener("connect", onConnect)
+    usb.getDevices().then((devices) => {
+      const panda = devices.find(matches)
+      if (panda) done(panda)
+    }, () => {})
+  })
+
+/**
+ * Wait for the panda to come back after a flash and check it runs the app that was written.
+ * Pass the bootstub that was reset into the app as `leaving` (see waitForPanda).
+ */
+export const confirmFlash = async (
+  usb: PandaUsb,
+  app: ArrayBuffer,
+  timeoutMs = 20000,
+  leaving?: USBDevice,
+): Promise<FlashConfirmation> => {
+  const device = await waitForPanda(usb, timeoutMs, leaving)
+  if (!device) return { outcome: "did-not-return" }
+
+  const panda = new PandaClient(device)
+  try {
+    let identity: PandaIdentity
+    try {
+      identity = await panda.identify()
+    } catch (e) {
+      return { outcome: "did-not-return", reason: e instanceof Error ? e.message : String(e) }
+    }
+    const expected = embeddedVersion(app)
+    if (identity.mode === "app" && identity.version && imageHasVersion(app, identity.version)) {
+      return { outcome: "verified", identity }
+    }
+    return { outcome: "mismatch", identity, expected }
+  } finally {
+    await panda.close()
+  }
+}
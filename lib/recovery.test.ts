@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { DfuDevice, findDfuInterfaces } from "@/lib/dfu"
+import { DfuProtectedError, explainDfuError } from "@/lib/dfu-errors"
+import { SimulatedDfuseDevice, type SimulatorOptions } from "@/lib/dfu-simulator"
+import { DEFAULT_LAYOUT } from "@/lib/dfuse-layout"
+import { planFlash } from "@/lib/flash"
+import { recoverPanda } from "@/lib/recovery"
+import { APP_ADDRESS, BOOTSTUB_ADDRESS } from "@/lib/stm32-image"
+
+const { STATE } = DfuDevice
+
+const makeImage = (address: number, size: number, seed: number) => {
+  const bytes = new Uint8Array(size)
+  for (let i = 8; i < size; i++) bytes[i] = (i * seed + 1) & 0xff
+  const view = new DataView(bytes.buffer)
+  view.setUint32(0, 0x20001000, true)
+  view.setUint32(4, (address + 0x101) | 1, true)
+  return bytes.buffer
+}
+
+const app = { name: "panda.bin", address: APP_ADDRESS, data: makeImage(APP_ADDRESS, 20000, 7) }
+const bootstub = { name: "bootstub.panda.bin", address: BOOTSTUB_ADDRESS, data: makeImage(BOOTSTUB_ADDRESS, 9000, 3) }
+const log = () => {}
+
+const connect = async (opts: SimulatorOptions = {}) => {
+  const sim = new SimulatedDfuseDevice(opts)
+  const dev = new DfuDevice(sim, findDfuInterfaces(sim)[0])
+  await dev.open()
+  return { sim, dev }
+}
+
+/** Leftovers of a broken firmware: junk in every sector */
+const junk = () => new Uint8Array(0x80000).fill(0x5a).buffer
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {})
+  vi.spyOn(console, "debug").mockImplementation(() => {})
+})
+
+describe("recoverPanda", () => {
+  it("mass-erases, then flashes and verifies the bootstub and app pair", async () => {
+    const { sim, dev } = await connect({ flash: junk() })
+    await recoverPanda(dev, await planFlash([app, bootstub], DEFAULT_LAYOUT, log), { log, massErase: true })
+
+    expect(sim.events.filter((e) => e.type === "mass-erase")).toHaveLength(1)
+    expect(sim.readMemory(APP_ADDRESS, app.data.byteLength)).toEqual(new Uint8Array(app.data))
+    expect(sim.readMemory(BOOTSTUB_ADDRESS, bootstub.data.byteLength)).toEqual(new Uint8Array(bootstub.data))
+    // Sectors the pair does not use no longer hold the old firmware
+    expect(sim.readMemory(0x08060000, 16)).toEqual(new Uint8Array(16).fill(0xff))
+  })
+
+  it("stops before erasing anything when readout protection is on, and explains it", async () => {
+    const { sim, dev } = await connect({ flash: junk(), readProtected: true })
+    const recovering = recoverPanda(dev, await planFlash([app, bootstub], DEFAULT_LAYOUT, log), {
+      log,
+      massErase: true,
+    })
+
+    const error = await recovering.catch((e) => e)
+    expect(error).toBeInstanceOf(DfuProtectedError)
+    expect(explainDfuError(error)?.recovery).toMatch(/unprotect/)
+    expect(sim.events.some((e) => e.type === "mass-erase" || e.type === "erase" || e.type === "write")).toBe(false)
+    expect(await dev.getState()).toBe(STATE.dfuIDLE)
+  })
+
+  it("refuses an app-only update, which cannot bring back a broken bootstub", async () => {
+    const { sim, dev } = await connect()
+    await expect(recoverPanda(dev, await planFlash([app], DEFAULT_LAYOUT, log), { log })).rejects.toThrow(
+      "has no bootstub image",
+    )
+    expect(sim.events).toEqual([])
+  })
+})
@@ -0,0 +1,77 @@
+/** ---------- Recovering a panda that no longer boots ---------- */
+// A panda with broken firmware never enumerates as 0xbbaa again, so nothing can ask it to reboot
+// into DFU mode. Holding BOOT0 high while it powers up starts the ST bootloader instead; from
+// there an optional mass erase and a full bootstub + app flash bring it back.
+import { DfuDevice } from "@/lib/dfu"
+import { DfuProtectedError, DfuStatusError } from "@/lib/dfu-errors"
+import { layoutStart, type MemoryLayout } from "@/lib/dfuse-layout"
+import type { FirmwareImage } from "@/lib/firmware-catalog"
+import { flashFirmware, type FlashOptions, type FlashPlan } from "@/lib/flash"
+import { APP_ADDRESS, BOOTSTUB_ADDRESS } from "@/lib/stm32-image"
+
+/** How to start the ST bootloader by hand, in order */
+export const BOOT0_STEPS = [
+  "Unplug the panda from USB and from the car.",
+  "Hold the button next to the USB port down (on a black panda, bridge the BOOT0 pads or jumper to 3.3V).",
+  "Plug the panda into this computer while holding it, then let go after two seconds.",
+  'Click "Connect to bootloader" and pick "STM32 BOOTLOADER" (0483:df11).',
+] as const
+
+export type RecoveryOptions = Omit<FlashOptions, "backup" | "smart"> & {
+  /** Erase every sector first, so nothing of the broken firmware survives outside the new images */
+  massErase?: boolean
+}
+
+/**
+ * Whether readout protection keeps the bootloader from touching flash. With RDP on, the ST
+ * bootloader answers every address, erase, read or write with errVENDOR; the error is cleared
+ * again so the device is left in dfuIDLE either way.
+ */
+export const isReadProtected = async (dev: DfuDevice, layout: MemoryLayout, xferSize: number) => {
+  // Without upload there is nothing to probe with; a protected device then fails the first erase
+  if (!dev.attributes.canUpload) return false
+  try {
+    await dev.dfuseRead(layoutStart(layout), 4, xferSize)
+    return false
+  } catch (e) {
+    if (!(e instanceof DfuStatusError) || e.status !== DfuDevice.STATUS.errVENDOR) throw e
+    await dev.abortToIdle()
+    return true
+  }
+}
+
+/** Recovery only brings a panda back with both halves of a known-good firmware */
+export const checkRecoveryImages = (images: Pick<FirmwareImage, "name" | "address">[]) => {
+  const missing = [
+    !images.some((img) => img.address === BOOTSTUB_ADDRESS) && "bootstub",
+    !images.some((img) => img.address === APP_ADDRESS) && "app",
+  ].filter(Boolean)
+  if (missing.length) {
+    throw new Error(`Recovery needs a bootstub and app pair; the firmware has no ${missing.join(" or ")} image`)
+  }
+}
+
+/**
+ * Check for readout protection, optionally mass-erase, then flash and verify `plan` and boot it.
+ * A backup of broken firmware is worth nothing, and a smart flash would trust whatever is left,
+ * so both are off.
+ */
+export const recoverPanda = async (dev: DfuDevice, plan: FlashPlan, opts: RecoveryOptions) => {
+  const { log, onStatus = () => {}, signal, massErase = false } = opts
+  checkRecoveryImages(plan.steps)
+
+  onStatus("Checking readout protection...")
+  if (await isReadProtected(dev, plan.layout, await dev.getTransferSize())) {
+    log("[v0] 🔐 Flash is read-protected - the bootloader refuses to touch it")
+    throw new DfuProtectedError()
+  }
+
+  if (massErase) {
+    onStatus("Mass-erasing flash...")
+    log("[v0] 🧹 Mass-erasing every flash sector...")
+    await dev.dfuseMassErase(signal)
+    log("[v0] ✅ Mass erase complete")
+  }
+
+  return flashFirmware(dev, plan, { ...opts, backup: false, smart: false })
+}
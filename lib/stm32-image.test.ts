@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest"
+import { analyzeImage, APP_ADDRESS, BOOTSTUB_ADDRESS, checkImagePlan } from "@/lib/stm32-image"
+
+const FLASH_END = 0x08100000
+
+/** An image of `size` bytes whose vector table starts with `word0` and the reset handler `reset` */
+const image = (word0: number, reset: number, size = 0x1000) => {
+  const data = new ArrayBuffer(size)
+  const view = new DataView(data)
+  if (size >= 4) view.setUint32(0, word0, true)
+  if (size >= 8) view.setUint32(4, reset, true)
+  return data
+}
+
+const bootstub = (size = 0x1000) => image(0x20001000, BOOTSTUB_ADDRESS + 0x101, size)
+const app = (size = 0x1000) => image(0x20001000, APP_ADDRESS + 0x101, size)
+
+describe("analyzeImage", () => {
+  it("tells a bootstub from an app by its reset handler", () => {
+    expect(analyzeImage("bootstub.panda.bin", bootstub(), FLASH_END)).toEqual({
+      role: "bootstub",
+      address: BOOTSTUB_ADDRESS,
+      initialSp: 0x20001000,
+      resetHandler: BOOTSTUB_ADDRESS + 0x101,
+    })
+    expect(analyzeImage("panda.bin", app(), FLASH_END)).toMatchObject({ role: "app", address: APP_ADDRESS })
+  })
+
+  it("accepts the signed length a panda app keeps in word 0", () => {
+    const signed = image(0x0f80, APP_ADDRESS + 0x101)
+    expect(analyzeImage("panda.bin", signed, FLASH_END)).toMatchObject({ role: "app", signedLength: 0x0f80 })
+    expect(analyzeImage("panda.bin", signed, FLASH_END).initialSp).toBeUndefined()
+  })
+
+  it("rejects an image too small to hold a vector table", () => {
+    expect(() => analyzeImage("tiny.bin", new ArrayBuffer(4), FLASH_END)).toThrow(
+      "tiny.bin is only 4 bytes - too small to hold a Cortex-M vector table",
+    )
+  })
+
+  it("rejects a reset handler without the Thumb bit", () => {
+    expect(() => analyzeImage("page.html", image(0x20001000, BOOTSTUB_ADDRESS + 0x100), FLASH_END)).toThrow(
+      /reset handler 0x08000100 is not a Thumb address/,
+    )
+  })
+
+  it("rejects an entry point outside internal flash", () => {
+    expect(() => analyzeImage("ram.bin", image(0x20001000, 0x20000101), FLASH_END)).toThrow(
+      /points outside internal flash \(0x08000000\.\.0x08100000\)/,
+    )
+    expect(() => analyzeImage("big.bin", image(0x20001000, FLASH_END + 0x101), FLASH_END)).toThrow(
+      /outside internal flash/,
+    )
+  })
+
+  it("rejects an entry point beyond the end of the image", () => {
+    expect(() => analyzeImage("cut.bin", image(0x20001000, BOOTSTUB_ADDRESS + 0x201, 0x100), FLASH_END)).toThrow(
+      "cut.bin: reset handler 0x08000201 lies beyond the end of the 256-byte image",
+    )
+  })
+
+  it("rejects a bootstub that spills into the app region", () => {
+    expect(() => analyzeImage("bootstub.panda.bin", bootstub(0x4001), FLASH_END)).toThrow(
+      /looks like a bootstub but is 16385 bytes - it does not fit 0x08000000\.\.0x08004000 \(16384 bytes\)/,
+    )
+  })
+
+  it("rejects an initial stack pointer outside SRAM", () => {
+    expect(() => analyzeImage("bootstub.panda.bin", image(0x10001000, BOOTSTUB_ADDRESS + 0x101), FLASH_END)).toThrow(
+      /initial stack pointer 0x10001000 is not in SRAM/,
+    )
+  })
+
+  it("rejects an app whose word 0 is neither a stack pointer nor a signed length within the image", () => {
+    expect(() => analyzeImage("panda.bin", image(0x2000, APP_ADDRESS + 0x101), FLASH_END)).toThrow(/not in SRAM/)
+    expect(() => analyzeImage("panda.bin", image(4, APP_ADDRESS + 0x101), FLASH_END)).toThrow(/not in SRAM/)
+    // Only apps carry a signed length
+    expect(() => analyzeImage("bootstub.panda.bin", image(0x0f80, BOOTSTUB_ADDRESS + 0x101), FLASH_END)).toThrow(
+      /not in SRAM/,
+    )
+  })
+})
+
+describe("checkImagePlan", () => {
+  it("checks both regions of an image that spans them and passes raw segments through", () => {
+    const combined = new Uint8Array(0x6000)
+    combined.set(new Uint8Array(bootstub(0x4000)))
+    combined.set(new Uint8Array(app(0x2000)), 0x4000)
+
+    const infos = checkImagePlan(
+      [
+        { name: "full.bin", address: BOOTSTUB_ADDRESS, data: combined.buffer },
+        { name: "full.bin @ 0x08020000", address: 0x08020000, data: new ArrayBuffer(0x100) },
+      ],
+      FLASH_END,
+    )
+    expect(infos.map((info) => info.role)).toEqual(["bootstub", "app"])
+  })
+
+  it("rejects an image planned for the other region's address", () => {
+    expect(() => checkImagePlan([{ name: "panda.bin", address: BOOTSTUB_ADDRESS, data: app() }], FLASH_END)).toThrow(
+      "panda.bin is an app image (entry 0x08004101) but is planned for 0x08000000 instead of 0x08004000",
+    )
+  })
+
+  it("rejects overlapping images", () => {
+    const images = [
+      { name: "bootstub.panda.bin", address: BOOTSTUB_ADDRESS, data: bootstub(0x3000) },
+      { name: "patch.bin", address: 0x08002000, data: new ArrayBuffer(0x1000) },
+    ]
+    expect(() => checkImagePlan(images, FLASH_END)).toThrow(
+      "bootstub.panda.bin (0x08000000, 12288 bytes) overlaps patch.bin",
+    )
+  })
+})
@@ -0,0 +1,111 @@
+import { hex } from "@/lib/utils"
+
+/** ---------- STM32 image sanity checks (Cortex-M vector table) ---------- */
+
+export const BOOTSTUB_ADDRESS = 0x08000000
+export const APP_ADDRESS = 0x08004000
+
+/** SRAM of the STM32F2/F4 parts used in pandas (128 KB on F205, up to 320 KB on F413) */
+const SRAM_START = 0x20000000
+const SRAM_END = 0x20050000
+
+export type ImageRole = "bootstub" | "app"
+
+export type ImageInfo = {
+  role: ImageRole
+  /** Load address implied by the role */
+  address: number
+  /** Word 0 of the vector table; unset when the app carries panda's signed-length header instead */
+  initialSp?: number
+  resetHandler: number
+  /** Word 0 of a panda app image: length of the signed part, followed by the signature */
+  signedLength?: number
+}
+
+const describe = (role: ImageRole) => (role === "app" ? "an app" : "a bootstub")
+
+const regionOf = (role: ImageRole, flashEnd: number) =>
+  role === "bootstub" ? { start: BOOTSTUB_ADDRESS, end: APP_ADDRESS } : { start: APP_ADDRESS, end: flashEnd }
+
+/**
+ * Parse the vector table of a raw image and work out whether it is a bootstub or an app from
+ * where its reset handler points. Throws with a human-readable explanation when the image
+ * cannot be a valid STM32 image for either region.
+ */
+export const analyzeImage = (name: string, data: ArrayBuffer, flashEnd: number): ImageInfo => {
+  if (data.byteLength < 8) {
+    throw new Error(`${name} is only ${data.byteLength} bytes - too small to hold a Cortex-M vector table`)
+  }
+
+  const view = new DataView(data)
+  const word0 = view.getUint32(0, true)
+  const resetHandler = view.getUint32(4, true)
+
+  if ((resetHandler & 1) === 0) {
+    throw new Error(
+      `${name}: reset handler ${hex(resetHandler)} is not a Thumb address - this is not a Cortex-M firmware image (maybe an HTML page or a corrupted file)`,
+    )
+  }
+
+  const entry = resetHandler & ~1
+  let role: ImageRole
+  if (entry >= BOOTSTUB_ADDRESS && entry < APP_ADDRESS) role = "bootstub"
+  else if (entry >= APP_ADDRESS && entry < flashEnd) role = "app"
+  else {
+    throw new Error(
+      `${name}: reset handler ${hex(resetHandler)} points outside internal flash (${hex(BOOTSTUB_ADDRESS)}..${hex(flashEnd)})`,
+    )
+  }
+
+  const { start, end } = regionOf(role, flashEnd)
+  if (entry >= start + data.byteLength) {
+    throw new Error(`${name}: reset handler ${hex(resetHandler)} lies beyond the end of the ${data.byteLength}-byte image`)
+  }
+  if (start + data.byteLength > end) {
+    throw new Error(
+      `${name} looks like ${describe(role)} but is ${data.byteLength} bytes - it does not fit ${hex(start)}..${hex(end)} (${end - start} bytes)`,
+    )
+  }
+
+  const info: ImageInfo = { role, address: start, resetHandler }
+  if (word0 > SRAM_START && word0 <= SRAM_END) {
+    info.initialSp = word0
+  } else if (role === "app" && word0 >= 8 && word0 <= data.byteLength) {
+    // Signed panda apps start with the signed length; the bootstub sets up the stack itself
+    info.signedLength = word0
+  } else {
+    throw new Error(`${name}: initial stack pointer ${hex(word0)} is not in SRAM (${hex(SRAM_START)}..${hex(SRAM_END)})`)
+  }
+  return info
+}
+
+/**
+ * Check a flash plan: every bootstub or app region an image starts must begin with a valid vector
+ * table for that region, and no two images may overlap. Images that start neither region (later
+ * segments of a HEX/ELF/DfuSe file) are raw data and only checked for overlap.
+ */
+export const checkImagePlan = (images: { name: string; address: number; data: ArrayBuffer }[], flashEnd: number) => {
+  const infos = images.flatMap((img) => {
+    const end = img.address + img.data.byteLength
+    const entries = [BOOTSTUB_ADDRESS, APP_ADDRESS].filter((a) => a >= img.address && a < end)
+    return entries.map((entry) => {
+      const regionEnd = entry === BOOTSTUB_ADDRESS ? Math.min(end, APP_ADDRESS) : end
+      const info = analyzeImage(img.name, img.data.slice(entry - img.address, regionEnd - img.address), flashEnd)
+      if (info.address !== entry) {
+        throw new Error(
+          `${img.name} is ${describe(info.role)} image (entry ${hex(info.resetHandler)}) but is planned for ${hex(entry)} instead of ${hex(info.address)}`,
+        )
+      }
+      return info
+    })
+  })
+
+  const sorted = [...images].sort((a, b) => a.address - b.address)
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1]
+    if (prev.address + prev.data.byteLength > sorted[i].address) {
+      throw new Error(`${prev.name} (${hex(prev.address)}, ${prev.data.byteLength} bytes) overlaps ${sorted[i].name}`)
+    }
+  }
+  return infos
+}
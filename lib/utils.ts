@@ -4,3 +4,8 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/** Zero-padded hex, e.g. hex(0x8004000) === "0x08004000" */
+export function hex(n: number, width = 8) {
+  return `0x${n.toString(16).padStart(width, "0")}`
+}